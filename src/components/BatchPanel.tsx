@@ -0,0 +1,118 @@
+import { useState } from "react";
+import type { ExportFormat, ExportMode } from "../export/types";
+
+export type BatchFailure = {
+  label: string;
+  message: string;
+};
+
+type BatchPanelProps = {
+  fileName: string | null;
+  // one label per merge row
+  rows: string[];
+  failures: BatchFailure[];
+  disabled?: boolean;
+  // why a job cannot run right now, by job value
+  unavailable?: Partial<Record<string, string>>;
+  onLoadFile: (file: File) => void;
+  onRun: (format: ExportFormat, mode: ExportMode) => void;
+};
+
+const JOBS: { value: string; label: string }[] = [
+  { value: "pdf:image", label: "PDF" },
+  { value: "pdf:native", label: "PDF (vector)" },
+  { value: "pptx:image", label: "PPT" },
+  { value: "pptx:native", label: "PPT (editable)" },
+  { value: "html:native", label: "HTML" },
+];
+
+function BatchPanel({
+  fileName,
+  rows,
+  failures,
+  disabled,
+  unavailable,
+  onLoadFile,
+  onRun,
+}: BatchPanelProps) {
+  const [job, setJob] = useState(JOBS[0].value);
+
+  const run = () => {
+    const [format, mode] = job.split(":") as [ExportFormat, ExportMode];
+    onRun(format, mode);
+  };
+
+  return (
+    <fieldset className="export-options batch-panel" disabled={disabled}>
+      <label>
+        <span>Partner list (CSV or JSON)</span>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) onLoadFile(file);
+            // allow the same file to be picked again after editing it
+            event.target.value = "";
+          }}
+        />
+      </label>
+
+      {fileName && (
+        <div className="batch-panel-rows">
+          <span>
+            {rows.length} deck{rows.length === 1 ? "" : "s"} from {fileName}
+          </span>
+          <ol>
+            {rows.map((label, index) => (
+              <li key={index}>{label}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <div className="export-options-row">
+        <label>
+          <span>Format</span>
+          <select value={job} onChange={(event) => setJob(event.target.value)}>
+            {JOBS.map((item) => (
+              <option
+                key={item.value}
+                value={item.value}
+                disabled={Boolean(unavailable?.[item.value])}
+              >
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          className="export-btn"
+          disabled={!rows.length || Boolean(unavailable?.[job])}
+          title={unavailable?.[job]}
+          onClick={run}
+        >
+          Export ZIP
+        </button>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="batch-panel-failures" role="alert">
+          <span>
+            {failures.length} deck{failures.length === 1 ? "" : "s"} failed
+          </span>
+          <ul>
+            {failures.map((failure, index) => (
+              <li key={index}>
+                <strong>{failure.label}</strong>: {failure.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </fieldset>
+  );
+}
+
+export default BatchPanel;
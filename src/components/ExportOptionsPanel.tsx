@@ -0,0 +1,314 @@
+import type { ChangeEvent } from "react";
+import {
+  clampSetting,
+  PAGE_SIZE_LABELS,
+  SETTING_BOUNDS,
+  type NumberSetting,
+} from "../export/settings";
+import type {
+  DocumentMetadata,
+  ExportSettings,
+  ImageEncoding,
+  PageSizePreset,
+  SequenceEncoding,
+} from "../export/types";
+
+type ExportOptionsPanelProps = {
+  settings: ExportSettings;
+  locales: readonly { code: string; label: string }[];
+  disabled?: boolean;
+  onChange: (settings: ExportSettings) => void;
+};
+
+const METADATA_FIELDS: {
+  key: keyof DocumentMetadata;
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "title", label: "Title", placeholder: "Title (title slide heading)" },
+  { key: "author", label: "Author", placeholder: "Author" },
+  { key: "company", label: "Company", placeholder: "Company" },
+  { key: "subject", label: "Subject", placeholder: "Subject" },
+  {
+    key: "keywords",
+    label: "Keywords",
+    placeholder: "Keywords, comma-separated",
+  },
+  { key: "version", label: "Version", placeholder: "Version, e.g. 1.2" },
+];
+
+function ExportOptionsPanel({
+  settings,
+  locales,
+  disabled,
+  onChange,
+}: ExportOptionsPanelProps) {
+  const update = <K extends keyof ExportSettings>(
+    key: K,
+    value: ExportSettings[K]
+  ) => onChange({ ...settings, [key]: value });
+
+  const updateMetadata = (key: keyof DocumentMetadata, value: string) =>
+    update("metadata", { ...settings.metadata, [key]: value });
+
+  const toggleLocale = (code: string) =>
+    update(
+      "locales",
+      settings.locales.includes(code)
+        ? settings.locales.filter((item) => item !== code)
+        : // keep the catalog order so files come out in a stable sequence
+          locales
+            .map((locale) => locale.code)
+            .filter((item) => item === code || settings.locales.includes(item))
+    );
+
+  const updateNumber =
+    (key: NumberSetting) => (event: ChangeEvent<HTMLInputElement>) => {
+      const value = event.target.valueAsNumber;
+      if (!Number.isNaN(value)) update(key, clampSetting(key, value));
+    };
+
+  return (
+    <fieldset className="export-options" disabled={disabled}>
+      <label>
+        <span>Page size</span>
+        <select
+          value={settings.pageSize}
+          onChange={(event) =>
+            update("pageSize", event.target.value as PageSizePreset)
+          }
+        >
+          {Object.entries(PAGE_SIZE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {settings.pageSize === "custom" && (
+        <div className="export-options-row">
+          <label>
+            <span>Width (in)</span>
+            <input
+              type="number"
+              {...SETTING_BOUNDS.customWidth}
+              step={0.01}
+              value={settings.customWidth}
+              onChange={updateNumber("customWidth")}
+            />
+          </label>
+          <label>
+            <span>Height (in)</span>
+            <input
+              type="number"
+              {...SETTING_BOUNDS.customHeight}
+              step={0.01}
+              value={settings.customHeight}
+              onChange={updateNumber("customHeight")}
+            />
+          </label>
+        </div>
+      )}
+
+      <label>
+        <span>Capture DPI</span>
+        <input
+          type="number"
+          {...SETTING_BOUNDS.dpi}
+          step={1}
+          value={settings.dpi}
+          onChange={updateNumber("dpi")}
+        />
+      </label>
+
+      <div className="export-options-row">
+        <label>
+          <span>Image encoding</span>
+          <select
+            value={settings.imageEncoding}
+            onChange={(event) =>
+              update("imageEncoding", event.target.value as ImageEncoding)
+            }
+          >
+            <option value="png">PNG</option>
+            <option value="jpeg">JPEG</option>
+          </select>
+        </label>
+        {settings.imageEncoding === "jpeg" && (
+          <label>
+            <span>Quality ({Math.round(settings.imageQuality * 100)}%)</span>
+            <input
+              type="range"
+              {...SETTING_BOUNDS.imageQuality}
+              step={0.01}
+              value={settings.imageQuality}
+              onChange={updateNumber("imageQuality")}
+            />
+          </label>
+        )}
+      </div>
+
+      <label>
+        <span>Margin (in)</span>
+        <input
+          type="number"
+          {...SETTING_BOUNDS.margin}
+          step={0.05}
+          value={settings.margin}
+          onChange={updateNumber("margin")}
+        />
+      </label>
+
+      <label className="export-options-check">
+        <input
+          type="checkbox"
+          checked={settings.notesPages}
+          onChange={(event) => update("notesPages", event.target.checked)}
+        />
+        <span>PDF notes pages (slide above its speaker notes)</span>
+      </label>
+
+      <div className="export-options-overlays">
+        <span>On exported pages</span>
+        <label className="export-options-check">
+          <input
+            type="checkbox"
+            checked={settings.pageNumbers}
+            onChange={(event) => update("pageNumbers", event.target.checked)}
+          />
+          <span>Page numbers (n / total)</span>
+        </label>
+        <label className="export-options-check">
+          <input
+            type="checkbox"
+            checked={settings.footer}
+            onChange={(event) => update("footer", event.target.checked)}
+          />
+          <span>Footer with brand and date</span>
+        </label>
+        {settings.footer && (
+          <input
+            type="text"
+            aria-label="Footer text"
+            value={settings.footerText}
+            placeholder="Theme brand name"
+            onChange={(event) => update("footerText", event.target.value)}
+          />
+        )}
+        <label className="export-options-check">
+          <input
+            type="checkbox"
+            checked={settings.watermark}
+            onChange={(event) => update("watermark", event.target.checked)}
+          />
+          <span>CONFIDENTIAL watermark</span>
+        </label>
+        <label className="export-options-check">
+          <input
+            type="checkbox"
+            checked={settings.overlaysOnTitle}
+            onChange={(event) =>
+              update("overlaysOnTitle", event.target.checked)
+            }
+          />
+          <span>Also on the title slide</span>
+        </label>
+      </div>
+
+      <div className="export-options-sequence">
+        <span>Export images</span>
+        <div className="export-options-row">
+          <label>
+            <span>Format</span>
+            <select
+              value={settings.sequenceEncoding}
+              onChange={(event) =>
+                update(
+                  "sequenceEncoding",
+                  event.target.value as SequenceEncoding
+                )
+              }
+            >
+              <option value="png">PNG</option>
+              <option value="jpeg">JPEG</option>
+              <option value="webp">WebP</option>
+            </select>
+          </label>
+          <label>
+            <span>Width (px)</span>
+            <input
+              type="number"
+              {...SETTING_BOUNDS.sequenceWidth}
+              step={1}
+              value={settings.sequenceWidth}
+              onChange={updateNumber("sequenceWidth")}
+            />
+          </label>
+        </div>
+        {settings.sequenceEncoding !== "png" && (
+          <label>
+            <span>Quality ({Math.round(settings.imageQuality * 100)}%)</span>
+            <input
+              type="range"
+              {...SETTING_BOUNDS.imageQuality}
+              step={0.01}
+              value={settings.imageQuality}
+              onChange={updateNumber("imageQuality")}
+            />
+          </label>
+        )}
+        <label className="export-options-check">
+          <input
+            type="checkbox"
+            checked={settings.contactSheet}
+            onChange={(event) => update("contactSheet", event.target.checked)}
+          />
+          <span>Contact sheet of the whole deck</span>
+        </label>
+      </div>
+
+      <div className="export-options-locales">
+        <span>Languages (one file each; none = current)</span>
+        {locales.map((locale) => (
+          <label key={locale.code} className="export-options-check">
+            <input
+              type="checkbox"
+              checked={settings.locales.includes(locale.code)}
+              onChange={() => toggleLocale(locale.code)}
+            />
+            <span>
+              {locale.label} ({locale.code})
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="export-options-metadata">
+        <span>Document properties</span>
+        {METADATA_FIELDS.map(({ key, label, placeholder }) => (
+          <input
+            key={key}
+            type="text"
+            aria-label={label}
+            value={settings.metadata[key]}
+            placeholder={placeholder}
+            onChange={(event) => updateMetadata(key, event.target.value)}
+          />
+        ))}
+      </div>
+
+      <label>
+        <span>File name</span>
+        <input
+          type="text"
+          value={settings.fileName}
+          placeholder="presentation"
+          onChange={(event) => update("fileName", event.target.value)}
+        />
+      </label>
+    </fieldset>
+  );
+}
+
+export default ExportOptionsPanel;
@@ -0,0 +1,50 @@
+import type { ExportProgress } from "../export/types";
+
+type ExportProgressBarProps = {
+  progress: ExportProgress;
+  // which file of a batch is being built
+  job?: string | null;
+  onCancel: () => void;
+};
+
+const describe = ({ stage, index, total, title }: ExportProgress) => {
+  switch (stage) {
+    case "preparing":
+      return "Loading fonts and images…";
+    case "capturing":
+      return `capturing ${index + 1}/${total} — ${title}`;
+    case "writing":
+      return `writing ${index + 1}/${total} — ${title}`;
+    case "finishing":
+      return "Building file…";
+  }
+};
+
+function ExportProgressBar({
+  progress,
+  job,
+  onCancel,
+}: ExportProgressBarProps) {
+  // capture and write each count for half a section
+  const done = progress.index + (progress.stage === "writing" ? 0.5 : 0);
+  const percent = Math.min(100, Math.round((done / progress.total) * 100));
+
+  return (
+    <div className="export-progress" role="status" aria-live="polite">
+      <div className="export-progress-label">
+        {job ? `${job} — ${describe(progress)}` : describe(progress)}
+      </div>
+      <div className="export-progress-track">
+        <div
+          className="export-progress-fill"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <button type="button" className="ghost-btn" onClick={onCancel}>
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+export default ExportProgressBar;
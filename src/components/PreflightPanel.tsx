@@ -0,0 +1,80 @@
+import type { PreflightIssue, PreflightSlide } from "../export/preflight";
+
+type PreflightPanelProps = {
+  report: PreflightSlide[] | null;
+  running: boolean;
+  disabled?: boolean;
+  onRun: () => void;
+  onSelect: (key: string, issue: PreflightIssue) => void;
+};
+
+const count = (slides: PreflightSlide[], severity: string) =>
+  slides
+    .flatMap((slide) => slide.issues)
+    .filter((issue) => issue.severity === severity).length;
+
+function PreflightPanel({
+  report,
+  running,
+  disabled,
+  onRun,
+  onSelect,
+}: PreflightPanelProps) {
+  const slides = report ?? [];
+  const flagged = slides.filter((slide) => slide.issues.length);
+  const errors = count(flagged, "error");
+  const warnings = count(flagged, "warning");
+
+  return (
+    <fieldset className="preflight" disabled={disabled}>
+      <div className="preflight-header">
+        <strong>Pre-flight</strong>
+        <button
+          type="button"
+          className="ghost-btn"
+          onClick={onRun}
+          disabled={running}
+        >
+          {running ? "Checking…" : report ? "Check again" : "Run check"}
+        </button>
+      </div>
+
+      {report && (
+        <p className="preflight-summary">
+          {flagged.length
+            ? `${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${
+                warnings === 1 ? "" : "s"
+              } on ${flagged.length} of ${slides.length} slides.`
+            : `No problems found on ${slides.length} slides.`}
+        </p>
+      )}
+
+      {flagged.length > 0 && (
+        <ol className="preflight-slides">
+          {flagged.map((slide) => (
+            <li key={slide.key}>
+              <strong>
+                {slides.indexOf(slide) + 1}. {slide.title}
+              </strong>
+              <ul>
+                {slide.issues.map((issue, index) => (
+                  <li key={index}>
+                    <button
+                      type="button"
+                      className={`preflight-issue preflight-${issue.severity}`}
+                      onClick={() => onSelect(slide.key, issue)}
+                    >
+                      {issue.message}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </fieldset>
+  );
+}
+
+export default PreflightPanel;
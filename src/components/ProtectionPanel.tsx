@@ -0,0 +1,104 @@
+import { PDF_PERMISSIONS } from "../export/protection";
+import type { PdfPermission, PdfProtection } from "../export/types";
+
+type ProtectionPanelProps = {
+  enabled: boolean;
+  protection: PdfProtection;
+  warnings: string[];
+  disabled?: boolean;
+  onToggle: (enabled: boolean) => void;
+  onChange: (protection: PdfProtection) => void;
+};
+
+function ProtectionPanel({
+  enabled,
+  protection,
+  warnings,
+  disabled,
+  onToggle,
+  onChange,
+}: ProtectionPanelProps) {
+  const update = <K extends keyof PdfProtection>(
+    key: K,
+    value: PdfProtection[K]
+  ) => onChange({ ...protection, [key]: value });
+
+  const togglePermission = (permission: PdfPermission) =>
+    update(
+      "permissions",
+      protection.permissions.includes(permission)
+        ? protection.permissions.filter((item) => item !== permission)
+        : PDF_PERMISSIONS.map((item) => item.value).filter(
+            (item) =>
+              item === permission || protection.permissions.includes(item)
+          )
+    );
+
+  return (
+    <fieldset className="export-options protection-panel" disabled={disabled}>
+      <label className="export-options-check">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(event) => onToggle(event.target.checked)}
+        />
+        <span>Encrypt exported PDFs</span>
+      </label>
+
+      {enabled && (
+        <>
+          <label>
+            <span>Open password</span>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={protection.userPassword}
+              placeholder="None: opens without a prompt"
+              onChange={(event) => update("userPassword", event.target.value)}
+            />
+          </label>
+          <label>
+            <span>Owner password</span>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={protection.ownerPassword}
+              placeholder="Lifts the restrictions below"
+              onChange={(event) => update("ownerPassword", event.target.value)}
+            />
+          </label>
+
+          <div className="protection-permissions">
+            <span>Allowed without the owner password</span>
+            {PDF_PERMISSIONS.map((permission) => (
+              <label key={permission.value} className="export-options-check">
+                <input
+                  type="checkbox"
+                  checked={protection.permissions.includes(permission.value)}
+                  onChange={() => togglePermission(permission.value)}
+                />
+                <span>{permission.label}</span>
+              </label>
+            ))}
+          </div>
+
+          {warnings.length > 0 && (
+            <ul className="protection-warnings" role="alert">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+
+          <p className="protection-note">
+            Passwords are only kept until the page is closed. PPT exports are
+            not encrypted. jsPDF uses 40-bit RC4, which keeps casual readers out
+            but is not strong encryption.
+          </p>
+        </>
+      )}
+    </fieldset>
+  );
+}
+
+export default ProtectionPanel;
@@ -0,0 +1,148 @@
+import { useState, type DragEvent } from "react";
+import type { SlideEntry, SlideInfo, SlidePreset } from "../export/selection";
+
+type SlidePickerProps = {
+  slides: SlideInfo[];
+  entries: SlideEntry[];
+  presets: SlidePreset[];
+  disabled?: boolean;
+  onChange: (entries: SlideEntry[]) => void;
+  onApplyPreset: (preset: SlidePreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+};
+
+function SlidePicker({
+  slides,
+  entries,
+  presets,
+  disabled,
+  onChange,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+}: SlidePickerProps) {
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState("");
+  const titles = new Map(slides.map((slide) => [slide.key, slide.title]));
+  const includedCount = entries.filter((entry) => entry.included).length;
+
+  const toggle = (key: string) =>
+    onChange(
+      entries.map((entry) =>
+        entry.key === key ? { ...entry, included: !entry.included } : entry
+      )
+    );
+
+  const moveBefore = (key: string, targetKey: string) => {
+    if (key === targetKey) return;
+    const moving = entries.find((entry) => entry.key === key);
+    if (!moving) return;
+    const rest = entries.filter((entry) => entry.key !== key);
+    const target = rest.findIndex((entry) => entry.key === targetKey);
+    rest.splice(target, 0, moving);
+    onChange(rest);
+  };
+
+  const handleDrop = (event: DragEvent, targetKey: string) => {
+    event.preventDefault();
+    if (dragKey) moveBefore(dragKey, targetKey);
+    setDragKey(null);
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onSavePreset(name);
+    setPresetName("");
+  };
+
+  return (
+    <fieldset className="slide-picker" disabled={disabled}>
+      <div className="slide-picker-header">
+        <strong>
+          Slides ({includedCount}/{entries.length})
+        </strong>
+        <select
+          value=""
+          onChange={(event) => {
+            const preset = presets.find(
+              (item) => item.name === event.target.value
+            );
+            if (preset) onApplyPreset(preset);
+          }}
+        >
+          <option value="" disabled>
+            Apply preset…
+          </option>
+          {presets.map((preset) => (
+            <option key={preset.name} value={preset.name}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <ol className="slide-picker-list">
+        {entries.map((entry, index) => (
+          <li
+            key={entry.key}
+            draggable={!disabled}
+            className={dragKey === entry.key ? "dragging" : undefined}
+            onDragStart={() => setDragKey(entry.key)}
+            onDragEnd={() => setDragKey(null)}
+            onDragOver={(event) => event.preventDefault()}
+            onDrop={(event) => handleDrop(event, entry.key)}
+          >
+            <span className="slide-picker-handle" aria-hidden>
+              ⋮⋮
+            </span>
+            <label>
+              <input
+                type="checkbox"
+                checked={entry.included}
+                onChange={() => toggle(entry.key)}
+              />
+              <span>
+                {index + 1}. {titles.get(entry.key) ?? entry.key}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ol>
+
+      <div className="slide-picker-presets">
+        <input
+          type="text"
+          value={presetName}
+          placeholder="Preset name"
+          onChange={(event) => setPresetName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") savePreset();
+          }}
+        />
+        <button type="button" onClick={savePreset}>
+          Save
+        </button>
+      </div>
+      {presets.length > 0 && (
+        <ul className="slide-picker-saved">
+          {presets.map((preset) => (
+            <li key={preset.name}>
+              <span>{preset.name}</span>
+              <button
+                type="button"
+                aria-label={`Delete preset ${preset.name}`}
+                onClick={() => onDeletePreset(preset.name)}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </fieldset>
+  );
+}
+
+export default SlidePicker;
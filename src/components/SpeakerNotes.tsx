@@ -0,0 +1,13 @@
+import type { ReactNode } from "react";
+
+// Presenter talking points for the enclosing <section>. Never shown on screen;
+// the exporters read them into PPTX notes and PDF notes pages.
+function SpeakerNotes({ children }: { children: ReactNode }) {
+  return (
+    <aside className="speaker-notes" hidden>
+      {children}
+    </aside>
+  );
+}
+
+export default SpeakerNotes;
@@ -0,0 +1,57 @@
+import { useEffect } from "react";
+
+export type ToastMessage = {
+  id: number;
+  tone: "error" | "warning" | "info";
+  title: string;
+  detail?: string;
+};
+
+type ToastsProps = {
+  toasts: ToastMessage[];
+  onDismiss: (id: number) => void;
+};
+
+const AUTO_DISMISS_MS = 8000;
+
+function Toast({
+  toast,
+  onDismiss,
+}: {
+  toast: ToastMessage;
+  onDismiss: (id: number) => void;
+}) {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.id), AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [toast.id, onDismiss]);
+
+  return (
+    <div className={`toast toast-${toast.tone}`} role="alert">
+      <div className="toast-copy">
+        <strong>{toast.title}</strong>
+        {toast.detail && <span>{toast.detail}</span>}
+      </div>
+      <button
+        type="button"
+        className="toast-close"
+        aria-label="Dismiss"
+        onClick={() => onDismiss(toast.id)}
+      >
+        ×
+      </button>
+    </div>
+  );
+}
+
+function Toasts({ toasts, onDismiss }: ToastsProps) {
+  return (
+    <div className="toasts">
+      {toasts.map((toast) => (
+        <Toast key={toast.id} toast={toast} onDismiss={onDismiss} />
+      ))}
+    </div>
+  );
+}
+
+export default Toasts;
@@ -0,0 +1,117 @@
+import { useState, type ChangeEvent } from "react";
+import {
+  calculateCommission,
+  formatRate,
+  formatTierRange,
+  type CommissionTerms,
+} from "./commission";
+import { formatMessage } from "./i18n";
+import type { AffiliateOption } from "./types";
+
+type CommissionCalculatorProps = {
+  terms: CommissionTerms;
+  labels: AffiliateOption["calculator"];
+};
+
+const money = (value: number) =>
+  value.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+// Lets a partner try the 净收益 formula from the option note on their own
+// numbers. Marked screen-only so it never shows up in exports.
+function CommissionCalculator({ terms, labels }: CommissionCalculatorProps) {
+  const [ggr, setGgr] = useState(0);
+  const [bonuses, setBonuses] = useState(0);
+  const [activePlayers, setActivePlayers] = useState(terms.minActivePlayers);
+  const currency = terms.tiers[0]?.currency ?? "";
+  const result = calculateCommission(terms, { ggr, bonuses, activePlayers });
+
+  const updateNumber =
+    (update: (value: number) => void) =>
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const value = event.target.valueAsNumber;
+      update(Number.isNaN(value) ? 0 : value);
+    };
+
+  return (
+    <form
+      className="commission-calculator"
+      data-screen-only
+      onSubmit={(event) => event.preventDefault()}
+    >
+      <div className="commission-calculator-inputs">
+        <label>
+          <span>
+            {labels.ggr} ({currency})
+          </span>
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={ggr}
+            onChange={updateNumber(setGgr)}
+          />
+        </label>
+        <label>
+          <span>
+            {labels.bonuses} ({currency})
+          </span>
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={bonuses}
+            onChange={updateNumber(setBonuses)}
+          />
+        </label>
+        <label>
+          <span>{labels.activePlayers}</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={activePlayers}
+            onChange={updateNumber(setActivePlayers)}
+          />
+        </label>
+      </div>
+
+      <dl className="commission-calculator-result">
+        <dt>
+          {labels.adminCost} ({formatRate(terms.adminCostRate)})
+        </dt>
+        <dd>
+          {currency} {money(result.adminCost)}
+        </dd>
+        <dt>{labels.netRevenue}</dt>
+        <dd>
+          {currency} {money(result.netRevenue)}
+        </dd>
+        <dt>{labels.rate}</dt>
+        <dd>
+          {result.tier
+            ? `${formatRate(result.tier.rate)} (${formatTierRange(
+                result.tier
+              )})`
+            : "—"}
+        </dd>
+        <dt>{labels.commission}</dt>
+        <dd className="commission-calculator-total">
+          {currency} {money(result.commission)}
+        </dd>
+      </dl>
+
+      {!result.eligible && (
+        <p className="commission-calculator-hint">
+          {formatMessage(labels.minPlayersHint, {
+            count: terms.minActivePlayers,
+          })}
+        </p>
+      )}
+    </form>
+  );
+}
+
+export default CommissionCalculator;
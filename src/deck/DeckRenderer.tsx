@@ -0,0 +1,81 @@
+import BackendLayout from "./layouts/BackendLayout";
+import BusinessModelLayout from "./layouts/BusinessModelLayout";
+import ConclusionLayout from "./layouts/ConclusionLayout";
+import HeroLayout from "./layouts/HeroLayout";
+import IntroductionLayout from "./layouts/IntroductionLayout";
+import MarketLayout from "./layouts/MarketLayout";
+import OptionsLayout from "./layouts/OptionsLayout";
+import StatusLayout from "./layouts/StatusLayout";
+import SummaryNotesLayout from "./layouts/SummaryNotesLayout";
+import SummaryTableLayout from "./layouts/SummaryTableLayout";
+import TeamLayout from "./layouts/TeamLayout";
+import ThankYouLayout from "./layouts/ThankYouLayout";
+import TocLayout from "./layouts/TocLayout";
+import type { Theme } from "../theme/themes";
+import type { Deck, Slide } from "./types";
+
+type DeckRendererProps = {
+  deck: Deck;
+  theme?: Theme;
+  onBrandClick?: () => void;
+};
+
+function SlideRenderer({
+  slide,
+  theme,
+  onBrandClick,
+}: {
+  slide: Slide;
+  theme?: Theme;
+  onBrandClick?: () => void;
+}) {
+  switch (slide.layout) {
+    case "hero":
+      return (
+        <HeroLayout slide={slide} theme={theme} onBrandClick={onBrandClick} />
+      );
+    case "toc":
+      return <TocLayout slide={slide} />;
+    case "introduction":
+      return <IntroductionLayout slide={slide} />;
+    case "status":
+      return <StatusLayout slide={slide} />;
+    case "business-model":
+      return <BusinessModelLayout slide={slide} />;
+    case "market":
+      return <MarketLayout slide={slide} />;
+    case "backend":
+      return <BackendLayout slide={slide} />;
+    case "team":
+      return <TeamLayout slide={slide} />;
+    case "options":
+      return <OptionsLayout slide={slide} />;
+    case "conclusion":
+      return <ConclusionLayout slide={slide} />;
+    case "summary-table":
+      return <SummaryTableLayout slide={slide} />;
+    case "summary-notes":
+      return <SummaryNotesLayout slide={slide} />;
+    case "thankyou":
+      return <ThankYouLayout slide={slide} />;
+  }
+}
+
+function DeckRenderer({ deck, theme, onBrandClick }: DeckRendererProps) {
+  return (
+    <>
+      {deck.slides
+        .filter((slide) => !slide.hidden)
+        .map((slide) => (
+          <SlideRenderer
+            key={slide.id ?? slide.layout}
+            slide={slide}
+            theme={theme}
+            onBrandClick={onBrandClick}
+          />
+        ))}
+    </>
+  );
+}
+
+export default DeckRenderer;
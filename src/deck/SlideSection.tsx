@@ -0,0 +1,39 @@
+import type { CSSProperties, ReactNode } from "react";
+import SpeakerNotes from "../components/SpeakerNotes";
+import type { Slide } from "./types";
+
+type SlideSectionProps = {
+  slide: Slide;
+  className?: string;
+  style?: CSSProperties;
+  children: ReactNode;
+};
+
+// The <section> every layout renders into: carries the slide id and layout the
+// exporters key on and the hidden speaker notes
+function SlideSection({
+  slide,
+  className,
+  style,
+  children,
+}: SlideSectionProps) {
+  return (
+    <section
+      className={className ?? slide.layout}
+      style={style}
+      data-slide={slide.id ?? slide.layout}
+      data-layout={slide.layout}
+    >
+      {children}
+      {slide.notes && slide.notes.length > 0 && (
+        <SpeakerNotes>
+          {slide.notes.map((paragraph) => (
+            <p key={paragraph}>{paragraph}</p>
+          ))}
+        </SpeakerNotes>
+      )}
+    </section>
+  );
+}
+
+export default SlideSection;
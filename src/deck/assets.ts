@@ -0,0 +1,166 @@
+import { blobToDataUrl } from "../export/encode";
+import type { LocalizedDeck } from "./validate";
+
+// Local copies of the deck's remote images. Every http(s) URL in the deck (and
+// the theme) is swapped for a data URL kept in IndexedDB, so the page, the
+// exports and presentations work offline and never taint a canvas.
+
+const DB_NAME = "pdf-html-assets";
+const STORE = "images";
+
+type StoredAsset = {
+  url: string;
+  dataUrl: string;
+  storedAt: number;
+};
+
+export type LocalizedAssets<T> = {
+  value: T;
+  // URLs that could not be downloaded; they show a placeholder instead
+  failed: string[];
+};
+
+const REMOTE_URL = /^https?:\/\//;
+
+// Grey box with a note, so a missing picture is obvious on the page and in
+// every export rather than a silent hole
+export const PLACEHOLDER_IMAGE = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="800" height="450" viewBox="0 0 800 450"><rect width="800" height="450" fill="#d5dde6"/><path d="M330 290l60-80 45 55 30-35 55 60z" fill="#9aa8b8"/><circle cx="470" cy="170" r="22" fill="#9aa8b8"/><text x="400" y="350" font-family="sans-serif" font-size="26" fill="#5b6b7c" text-anchor="middle">Image unavailable</text></svg>'
+)}`;
+
+// Resolved during this session, so switching language or theme does not go
+// back to IndexedDB
+const memory = new Map<string, Promise<string>>();
+
+let database: Promise<IDBDatabase> | null = null;
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "url" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // private windows and locked-down browsers have no IndexedDB; downloads
+    // then only live for the session
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const readStored = async (url: string) => {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE).objectStore(STORE);
+    const entry = await requestResult<StoredAsset | undefined>(store.get(url));
+    return entry?.dataUrl;
+  } catch (err) {
+    console.warn("Unable to read the image cache", err);
+    return undefined;
+  }
+};
+
+const writeStored = async (url: string, dataUrl: string) => {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+    const entry: StoredAsset = { url, dataUrl, storedAt: Date.now() };
+    await requestResult(store.put(entry));
+  } catch (err) {
+    console.warn("Unable to save to the image cache", err);
+  }
+};
+
+const download = async (url: string) => {
+  const res = await fetch(url, { mode: "cors", referrerPolicy: "no-referrer" });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const blob = await res.blob();
+  if (!blob.type.startsWith("image/")) {
+    throw new Error(`expected an image, got ${blob.type || "unknown type"}`);
+  }
+  return blobToDataUrl(blob);
+};
+
+const resolveAsset = (url: string) => {
+  let pending = memory.get(url);
+  if (!pending) {
+    pending = (async () => {
+      const stored = await readStored(url);
+      if (stored) return stored;
+      const dataUrl = await download(url);
+      await writeStored(url, dataUrl);
+      return dataUrl;
+    })();
+    // a failed download is retried on the next load
+    pending.catch(() => memory.delete(url));
+    memory.set(url, pending);
+  }
+  return pending;
+};
+
+const collectUrls = (value: unknown, urls: Set<string>) => {
+  if (typeof value === "string") {
+    if (REMOTE_URL.test(value)) urls.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectUrls(item, urls));
+  } else if (typeof value === "object" && value !== null) {
+    Object.values(value).forEach((item) => collectUrls(item, urls));
+  }
+  return urls;
+};
+
+const replaceUrls = (value: unknown, local: Map<string, string>): unknown => {
+  if (typeof value === "string") return local.get(value) ?? value;
+  if (Array.isArray(value))
+    return value.map((item) => replaceUrls(item, local));
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        replaceUrls(item, local),
+      ])
+    );
+  }
+  return value;
+};
+
+// Every remote URL anywhere in the value is replaced by its local copy, or by
+// the placeholder when it cannot be fetched
+export const localizeAssets = async <T>(
+  value: T
+): Promise<LocalizedAssets<T>> => {
+  const urls = [...collectUrls(value, new Set())];
+  const failed: string[] = [];
+  const local = new Map<string, string>();
+
+  await Promise.all(
+    urls.map(async (url) => {
+      try {
+        local.set(url, await resolveAsset(url));
+      } catch (err) {
+        console.warn(`Unable to download ${url}`, err);
+        failed.push(url);
+        local.set(url, PLACEHOLDER_IMAGE);
+      }
+    })
+  );
+
+  return { value: replaceUrls(value, local) as T, failed };
+};
+
+// A loaded deck with its remote images swapped for local copies
+export const localizeDeck = async (loaded: LocalizedDeck) => {
+  const { value, failed } = await localizeAssets(loaded.deck);
+  return { loaded: { ...loaded, deck: value }, unavailable: failed };
+};
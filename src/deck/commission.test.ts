@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateCommission,
+  findTier,
+  type CommissionTier,
+} from "./commission";
+
+const TIERS: CommissionTier[] = [
+  { min: 0, max: 2_000_000, rate: 0.25, currency: "CNY" },
+  { min: 2_000_001, max: 5_000_000, rate: 0.3, currency: "CNY" },
+  { min: 5_000_001, max: null, rate: 0.35, currency: "CNY" },
+];
+
+describe("findTier", () => {
+  it("keeps fractional revenue between two bands in the lower one", () => {
+    expect(findTier(TIERS, 2_000_000)).toBe(TIERS[0]);
+    expect(findTier(TIERS, 2_000_000.7)).toBe(TIERS[0]);
+    expect(findTier(TIERS, 2_000_001)).toBe(TIERS[1]);
+    expect(findTier(TIERS, 5_000_000.5)).toBe(TIERS[1]);
+    expect(findTier(TIERS, 5_000_001)).toBe(TIERS[2]);
+  });
+
+  it("stops at the end of a closed last band", () => {
+    const closed = TIERS.slice(0, 2);
+    expect(findTier(closed, 5_000_000.9)).toBe(closed[1]);
+    expect(findTier(closed, 5_000_001)).toBeNull();
+    expect(findTier(closed, -1)).toBeNull();
+  });
+});
+
+describe("calculateCommission", () => {
+  it("pays commission on net revenue just past a band boundary", () => {
+    const result = calculateCommission(
+      { tiers: TIERS, adminCostRate: 0.15, minActivePlayers: 5 },
+      { ggr: 2_352_942, bonuses: 0, activePlayers: 10 }
+    );
+    expect(result.netRevenue).toBeCloseTo(2_000_000.7);
+    expect(result.tier).toBe(TIERS[0]);
+    expect(result.commission).toBeCloseTo(500_000.175);
+  });
+});
@@ -0,0 +1,123 @@
+// Affiliate commission bands. Each band covers whole currency units from min to
+// max inclusive; only the last band may be open-ended (max: null).
+
+export type CommissionTier = {
+  min: number;
+  max: number | null;
+  // fraction of net revenue, e.g. 0.25 for 25%
+  rate: number;
+  currency: string;
+};
+
+export type CommissionTerms = {
+  tiers: CommissionTier[];
+  // share of total GGR withheld as admin cost before commission (管理成本)
+  adminCostRate: number;
+  // fewer active players than this and no commission is paid
+  minActivePlayers: number;
+};
+
+export type TierIssue = {
+  tier: number;
+  message: string;
+};
+
+const amount = (value: number, currency: string) =>
+  `${currency} ${value.toLocaleString("en-US")}`;
+
+export const formatTierRange = (tier: CommissionTier) =>
+  tier.max === null
+    ? `> ${amount(tier.min, tier.currency)}`
+    : `${amount(tier.min, tier.currency)} - ${tier.max.toLocaleString(
+        "en-US"
+      )}`;
+
+export const formatRate = (rate: number) =>
+  `${Math.round(rate * 10000) / 100}%`;
+
+// Bands must be in ascending order, touch without gaps or overlaps, share one
+// currency and never pay a lower rate for more revenue
+export const checkTiers = (tiers: CommissionTier[]) => {
+  const issues: TierIssue[] = [];
+
+  tiers.forEach((tier, index) => {
+    const flag = (message: string) => issues.push({ tier: index, message });
+    const label = formatTierRange(tier);
+
+    if (tier.max !== null && tier.max < tier.min) {
+      flag(`${label}: band ends before it starts`);
+    }
+    if (tier.rate < 0 || tier.rate > 1) {
+      flag(`${label}: rate ${formatRate(tier.rate)} is outside 0–100%`);
+    }
+    if (tier.max === null && index < tiers.length - 1) {
+      flag(`${label}: only the last band can be open-ended`);
+    }
+
+    const previous = tiers[index - 1];
+    if (!previous) return;
+
+    if (tier.currency !== previous.currency) {
+      flag(
+        `${label}: currency ${tier.currency} differs from ${previous.currency}`
+      );
+    }
+    if (previous.max !== null) {
+      if (tier.min > previous.max + 1) {
+        flag(
+          `${label}: gap after ${formatTierRange(previous)} (${amount(
+            previous.max + 1,
+            tier.currency
+          )} – ${amount(tier.min - 1, tier.currency)} is not covered)`
+        );
+      } else if (tier.min <= previous.max) {
+        flag(`${label}: overlaps ${formatTierRange(previous)}`);
+      }
+    }
+    if (tier.rate < previous.rate) {
+      flag(
+        `${label}: rate ${formatRate(tier.rate)} is lower than the ${formatRate(
+          previous.rate
+        )} of the band below`
+      );
+    }
+  });
+
+  return issues;
+};
+
+// Net revenue is rarely a whole number, so a band runs up to where the next one
+// starts: 2,000,000.7 still falls in …–2,000,000 rather than between bands
+export const findTier = (tiers: CommissionTier[], netRevenue: number) =>
+  tiers.find((tier, index) => {
+    const next = tiers[index + 1];
+    const end = next ? next.min : tier.max === null ? Infinity : tier.max + 1;
+    return netRevenue >= tier.min && netRevenue < end;
+  }) ?? null;
+
+export type CommissionResult = {
+  adminCost: number;
+  // 净收益 = 总毛收益 − 玩家红利 − 管理成本
+  netRevenue: number;
+  tier: CommissionTier | null;
+  // 佣金 = 净收益 × 佣金比例
+  commission: number;
+  eligible: boolean;
+};
+
+export const calculateCommission = (
+  terms: CommissionTerms,
+  input: { ggr: number; bonuses: number; activePlayers: number }
+): CommissionResult => {
+  const adminCost = input.ggr * terms.adminCostRate;
+  const netRevenue = input.ggr - input.bonuses - adminCost;
+  const tier = findTier(terms.tiers, netRevenue);
+  const eligible = input.activePlayers >= terms.minActivePlayers;
+  return {
+    adminCost,
+    netRevenue,
+    tier,
+    commission: eligible && tier ? netRevenue * tier.rate : 0,
+    eligible,
+  };
+};
@@ -0,0 +1,191 @@
+// Monthly financial model behind the summary table. Only the inputs are kept
+// in the deck; every derived column and the totals row are computed here using
+// the definitions from the 简要说明 notes.
+
+export type FinanceInputs = {
+  month: string;
+  // 首存人数 – new players making their first deposit this month
+  ftd: number;
+  // 单个首存成本
+  costPerFtd: number;
+  // 活跃玩家数
+  activePlayers: number;
+  // 人均存款额
+  depositPerPlayer: number;
+  // 人均 GGR
+  ggrPerPlayer: number;
+  // 财务成本 – interest, fees and other finance charges for the month
+  financeCost: number;
+};
+
+export type FinanceRow = FinanceInputs & {
+  // 首存总成本 = 首存人数 × 单个首存成本
+  ftdTotalCost: number;
+  // 活跃玩家总存款额 = 活跃玩家数 × 人均存款额
+  totalDeposits: number;
+  // 总成本 = 首存总成本 + 财务成本
+  totalCost: number;
+  // 总利润 = 活跃玩家总存款额 − 总成本
+  profit: number;
+};
+
+export type FinanceColumn = keyof FinanceRow;
+
+// Table order of the eleven summary columns
+export const FINANCE_COLUMNS: FinanceColumn[] = [
+  "month",
+  "ftd",
+  "costPerFtd",
+  "ftdTotalCost",
+  "activePlayers",
+  "depositPerPlayer",
+  "ggrPerPlayer",
+  "totalDeposits",
+  "financeCost",
+  "totalCost",
+  "profit",
+];
+
+export type FinanceIssue = {
+  // index into the input months
+  row: number;
+  column: FinanceColumn;
+  message: string;
+};
+
+export type FinanceModel = {
+  rows: FinanceRow[];
+  // per-player and per-FTD columns are weighted averages, the rest are sums
+  total: Omit<FinanceRow, "month">;
+  issues: FinanceIssue[];
+};
+
+const NUMERIC_INPUTS = [
+  "ftd",
+  "costPerFtd",
+  "activePlayers",
+  "depositPerPlayer",
+  "ggrPerPlayer",
+  "financeCost",
+] as const;
+
+const COUNT_INPUTS = new Set<FinanceColumn>(["ftd", "activePlayers"]);
+
+const sum = (rows: FinanceRow[], pick: (row: FinanceRow) => number) =>
+  rows.reduce((acc, row) => acc + pick(row), 0);
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator ? numerator / denominator : 0;
+
+export const deriveRow = (inputs: FinanceInputs): FinanceRow => {
+  const ftdTotalCost = inputs.ftd * inputs.costPerFtd;
+  const totalDeposits = inputs.activePlayers * inputs.depositPerPlayer;
+  const totalCost = ftdTotalCost + inputs.financeCost;
+  return {
+    ...inputs,
+    ftdTotalCost,
+    totalDeposits,
+    totalCost,
+    profit: totalDeposits - totalCost,
+  };
+};
+
+const checkInputs = (months: FinanceInputs[]) => {
+  const issues: FinanceIssue[] = [];
+  const seen = new Map<string, number>();
+  let cumulativeFtd = 0;
+
+  months.forEach((inputs, row) => {
+    const flag = (column: FinanceColumn, message: string) =>
+      issues.push({ row, column, message: `${inputs.month}: ${message}` });
+
+    const previous = seen.get(inputs.month);
+    if (previous !== undefined) {
+      flag("month", `listed twice (rows ${previous + 1} and ${row + 1})`);
+    }
+    seen.set(inputs.month, row);
+
+    NUMERIC_INPUTS.forEach((column) => {
+      const value = inputs[column];
+      if (!Number.isFinite(value) || value < 0) {
+        flag(column, `${column} must be zero or more, got ${value}`);
+      } else if (COUNT_INPUTS.has(column) && !Number.isInteger(value)) {
+        flag(column, `${column} must be a whole number, got ${value}`);
+      }
+    });
+
+    cumulativeFtd += inputs.ftd;
+    if (inputs.activePlayers > cumulativeFtd) {
+      flag(
+        "activePlayers",
+        `${inputs.activePlayers} active players but only ${cumulativeFtd} first deposits so far`
+      );
+    }
+
+    if (inputs.ggrPerPlayer > inputs.depositPerPlayer) {
+      flag(
+        "ggrPerPlayer",
+        `GGR per player (${inputs.ggrPerPlayer}) exceeds deposit per player (${inputs.depositPerPlayer})`
+      );
+    }
+  });
+
+  return issues;
+};
+
+export const computeFinanceModel = (months: FinanceInputs[]): FinanceModel => {
+  const rows = months.map(deriveRow);
+  const ftd = sum(rows, (row) => row.ftd);
+  const activePlayers = sum(rows, (row) => row.activePlayers);
+  const ftdTotalCost = sum(rows, (row) => row.ftdTotalCost);
+  const totalDeposits = sum(rows, (row) => row.totalDeposits);
+  const financeCost = sum(rows, (row) => row.financeCost);
+  const totalCost = sum(rows, (row) => row.totalCost);
+
+  return {
+    rows,
+    total: {
+      ftd,
+      costPerFtd: ratio(ftdTotalCost, ftd),
+      ftdTotalCost,
+      activePlayers,
+      depositPerPlayer: ratio(totalDeposits, activePlayers),
+      ggrPerPlayer: ratio(
+        sum(rows, (row) => row.activePlayers * row.ggrPerPlayer),
+        activePlayers
+      ),
+      totalDeposits,
+      financeCost,
+      totalCost,
+      profit: totalDeposits - totalCost,
+    },
+    issues: checkInputs(months),
+  };
+};
+
+const wholeNumber = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 0,
+});
+const rate = new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 });
+const money = new Intl.NumberFormat("en-US", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const FORMATS: Record<Exclude<FinanceColumn, "month">, Intl.NumberFormat> = {
+  ftd: wholeNumber,
+  costPerFtd: rate,
+  ftdTotalCost: wholeNumber,
+  activePlayers: wholeNumber,
+  depositPerPlayer: rate,
+  ggrPerPlayer: rate,
+  totalDeposits: money,
+  financeCost: money,
+  totalCost: money,
+  profit: money,
+};
+
+export const formatFinanceValue = (
+  column: Exclude<FinanceColumn, "month">,
+  value: number
+) => FORMATS[column].format(value);
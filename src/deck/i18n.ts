@@ -0,0 +1,95 @@
+// Slide copy lives in one flat message catalog per locale under
+// public/locales; the deck file only holds the message keys.
+
+export const LOCALES = [
+  { code: "zh-CN", label: "简体中文" },
+  { code: "zh-TW", label: "繁體中文" },
+  { code: "en", label: "English" },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]["code"];
+
+// The source language: every key must exist here, other catalogs fall back to it
+export const DEFAULT_LOCALE: Locale = "zh-CN";
+
+export type Catalog = Record<string, string>;
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some((locale) => locale.code === value);
+
+export const localeLabel = (locale: Locale) =>
+  LOCALES.find((item) => item.code === locale)?.label ?? locale;
+
+const catalogCache = new Map<Locale, Promise<Catalog>>();
+
+const fetchCatalog = async (locale: Locale): Promise<Catalog> => {
+  const url = `/locales/${locale}.json`;
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(
+      `Unable to load ${locale} messages from ${url} (HTTP ${res.status}).`
+    );
+  }
+
+  const data: unknown = await res.json();
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`${url} must be an object of message keys to text.`);
+  }
+  return Object.fromEntries(
+    Object.entries(data).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string"
+    )
+  );
+};
+
+export const loadCatalog = (locale: Locale) => {
+  let pending = catalogCache.get(locale);
+  if (!pending) {
+    pending = fetchCatalog(locale);
+    // a failed request should be retried next time, not cached
+    pending.catch(() => catalogCache.delete(locale));
+    catalogCache.set(locale, pending);
+  }
+  return pending;
+};
+
+// Resolves keys against the locale and falls back to the source language,
+// recording every key that had to fall back
+export const createTranslator = (catalog: Catalog, fallback: Catalog) => {
+  const missing: string[] = [];
+  const translate = (key: string) => {
+    if (catalog[key]) return catalog[key];
+    if (fallback[key] === undefined) return undefined;
+    missing.push(key);
+    return fallback[key];
+  };
+  return { translate, missing };
+};
+
+// Fills {name} placeholders in a message
+export const formatMessage = (
+  template: string,
+  values: Record<string, string | number>
+) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  );
+
+const STORAGE_KEY = "pdf-html.locale";
+
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (err) {
+    console.warn("Unable to save locale", err);
+  }
+};
@@ -0,0 +1,47 @@
+import SlideSection from "../SlideSection";
+import type { BackendSlide } from "../types";
+
+function BackendLayout({ slide }: { slide: BackendSlide }) {
+  return (
+    <SlideSection slide={slide}>
+      <div className="backend-hex-stack">
+        <div className="hex-layer hex-layer-lg" />
+        <div className="hex-layer hex-layer-md" />
+        <div className="hex-layer hex-layer-img">
+          <img
+            src={slide.image.src}
+            alt={slide.image.alt}
+            crossOrigin="anonymous"
+          />
+        </div>
+        <div className="hex-icon">
+          <span role="img" aria-label="tools">
+            {slide.icon}
+          </span>
+        </div>
+      </div>
+
+      <div className="backend-content">
+        <p className="eyebrow">{slide.eyebrow}</p>
+        <h2>{slide.title}</h2>
+        <p className="lead backend-lead" style={{ textAlign: "right" }}>
+          {slide.lead}
+        </p>
+
+        <div className="backend-grid">
+          {slide.cards.map((card, index) => (
+            <div key={card.title} className="backend-card">
+              <div className="backend-number">{index + 1}</div>
+              <div>
+                <h4>{card.title}</h4>
+                <p>{card.description}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </SlideSection>
+  );
+}
+
+export default BackendLayout;
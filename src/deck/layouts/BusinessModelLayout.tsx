@@ -0,0 +1,33 @@
+import SlideSection from "../SlideSection";
+import type { BusinessModelSlide } from "../types";
+
+const CALLOUT_POSITIONS = ["tl", "tr", "bl", "br"];
+
+function BusinessModelLayout({ slide }: { slide: BusinessModelSlide }) {
+  return (
+    <SlideSection slide={slide}>
+      <h2>{slide.title}</h2>
+      <div className="model-canvas">
+        {slide.callouts.slice(0, 4).map((callout, index) => (
+          <div
+            key={callout.title}
+            className={`callout callout-${CALLOUT_POSITIONS[index]}`}
+          >
+            <h3>{callout.title}</h3>
+            <p>{callout.body}</p>
+          </div>
+        ))}
+
+        <div className="diamond-cluster">
+          {slide.icons.map((icon) => (
+            <div key={icon} className="diamond-card central">
+              <div className="icon">{icon}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </SlideSection>
+  );
+}
+
+export default BusinessModelLayout;
@@ -0,0 +1,18 @@
+import SlideSection from "../SlideSection";
+import type { ConclusionSlide } from "../types";
+
+function ConclusionLayout({ slide }: { slide: ConclusionSlide }) {
+  return (
+    <SlideSection slide={slide}>
+      <div className="conclusion-content">
+        <h2>{slide.title}</h2>
+        <p>{slide.body}</p>
+      </div>
+      <div className="conclusion-image">
+        <img src={slide.image.src} alt={slide.image.alt} />
+      </div>
+    </SlideSection>
+  );
+}
+
+export default ConclusionLayout;
@@ -0,0 +1,56 @@
+import type { Theme } from "../../theme/themes";
+import SlideSection from "../SlideSection";
+import type { HeroSlide } from "../types";
+
+type HeroLayoutProps = {
+  slide: HeroSlide;
+  theme?: Theme;
+  onBrandClick?: () => void;
+};
+
+function HeroLayout({ slide, theme, onBrandClick }: HeroLayoutProps) {
+  const brandName = theme?.brandName ?? slide.brandName;
+
+  return (
+    <SlideSection slide={slide}>
+      <div className="hero-left">
+        <img src={theme?.heroImage ?? slide.image.src} alt={slide.image.alt} />
+        <div className="hero-overlay" />
+        <div
+          className="brand"
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "flex-start",
+            justifyContent: "center",
+          }}
+        >
+          {theme?.logo && (
+            <img
+              className="brand-logo"
+              src={theme.logo}
+              alt={brandName}
+              crossOrigin="anonymous"
+            />
+          )}
+          <div className="brand-name" onClick={onBrandClick}>
+            {brandName}
+          </div>
+        </div>
+      </div>
+      <div className="hero-content">
+        <div>
+          <h1>{slide.title}</h1>
+          {slide.subtitle && <div className="subtitle">{slide.subtitle}</div>}
+        </div>
+        <div className="hero-stripes" aria-hidden>
+          {Array.from({ length: 9 }).map((_, idx) => (
+            <span key={idx} />
+          ))}
+        </div>
+      </div>
+    </SlideSection>
+  );
+}
+
+export default HeroLayout;
@@ -0,0 +1,20 @@
+import SlideSection from "../SlideSection";
+import type { IntroductionSlide } from "../types";
+
+function IntroductionLayout({ slide }: { slide: IntroductionSlide }) {
+  return (
+    <SlideSection slide={slide}>
+      <h2>{slide.title}</h2>
+      <p>{slide.body}</p>
+      <div className="intro-city">
+        <img
+          src={slide.image.src}
+          alt={slide.image.alt}
+          crossOrigin="anonymous"
+        />
+      </div>
+    </SlideSection>
+  );
+}
+
+export default IntroductionLayout;
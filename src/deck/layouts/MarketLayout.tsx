@@ -0,0 +1,27 @@
+import SlideSection from "../SlideSection";
+import type { MarketSlide } from "../types";
+
+function MarketLayout({ slide }: { slide: MarketSlide }) {
+  return (
+    <SlideSection slide={slide}>
+      <h2 className="market-title">{slide.title}</h2>
+
+      <div className="market-grid">
+        {slide.cards
+          .filter((card) => !card.hidden)
+          .map((card) => (
+            <div key={card.title} className="market-card">
+              <div className="market-card-top">
+                <h3>{card.title}</h3>
+              </div>
+              <div className="market-card-body">
+                <p>{card.body}</p>
+              </div>
+            </div>
+          ))}
+      </div>
+    </SlideSection>
+  );
+}
+
+export default MarketLayout;
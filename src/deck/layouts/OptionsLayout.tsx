@@ -0,0 +1,98 @@
+import CommissionCalculator from "../CommissionCalculator";
+import SlideSection from "../SlideSection";
+import { checkTiers, formatRate, formatTierRange } from "../commission";
+import type { OptionsSlide } from "../types";
+
+function OptionsLayout({ slide }: { slide: OptionsSlide }) {
+  const { affiliate, brand } = slide;
+  const tierIssues = affiliate ? checkTiers(affiliate.tiers) : [];
+
+  return (
+    <SlideSection slide={slide}>
+      <div className="options-inner">
+        <div className="options-grid">
+          {affiliate && !affiliate.hidden && (
+            <div className="option-card option-affiliate">
+              <h2
+                style={{
+                  color: "#FFFFFF",
+                }}
+              >
+                {affiliate.title}
+              </h2>
+              <div className="option-affiliate-body">
+                <div className="option-table">
+                  <div className="table-wrapper">
+                    <table>
+                      <thead>
+                        <tr>
+                          <th>{affiliate.rangeHeader}</th>
+                          <th>{affiliate.rateHeader}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {affiliate.tiers.map((tier, index) => {
+                          const issues = tierIssues.filter(
+                            (issue) => issue.tier === index
+                          );
+                          return (
+                            <tr
+                              key={tier.min}
+                              className={issues.length ? "flagged" : undefined}
+                              title={
+                                issues
+                                  .map((issue) => issue.message)
+                                  .join("\n") || undefined
+                              }
+                            >
+                              <td>{formatTierRange(tier)}</td>
+                              <td>{formatRate(tier.rate)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  {tierIssues.length > 0 && (
+                    <ul className="tier-issues" role="alert">
+                      {tierIssues.map((issue) => (
+                        <li key={issue.message}>{issue.message}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="option-affiliate-text">
+                  <p>{affiliate.text}</p>
+                  <div className="option-note">{affiliate.note}</div>
+                  <CommissionCalculator
+                    terms={affiliate}
+                    labels={affiliate.calculator}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="option-card option-brand">
+            <h2>{brand.title}</h2>
+            <div className="table-wrapper">
+              <table>
+                <tbody>
+                  {brand.rows.map((row) => (
+                    <tr key={row.label}>
+                      <td>{row.label}</td>
+                      <td>{row.value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="option-text">{brand.text}</div>
+          </div>
+        </div>
+      </div>
+    </SlideSection>
+  );
+}
+
+export default OptionsLayout;
@@ -0,0 +1,36 @@
+import SlideSection from "../SlideSection";
+import type { StatusSlide } from "../types";
+
+function StatusLayout({ slide }: { slide: StatusSlide }) {
+  return (
+    <SlideSection slide={slide}>
+      <div className="status-left">
+        <h2>{slide.title}</h2>
+        <p>{slide.body}</p>
+      </div>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "flex-start",
+          justifyContent: "center",
+          gap: "10px",
+        }}
+      >
+        {slide.cards.map((card) => (
+          <div key={card.title} className="status-card">
+            <div className="status-icon-circle" aria-hidden>
+              {card.icon}
+            </div>
+            <div className="status-copy">
+              <h4>{card.title}</h4>
+              <p>{card.description}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </SlideSection>
+  );
+}
+
+export default StatusLayout;
@@ -0,0 +1,21 @@
+import SlideSection from "../SlideSection";
+import type { SummaryNotesSlide } from "../types";
+
+function SummaryNotesLayout({ slide }: { slide: SummaryNotesSlide }) {
+  return (
+    <SlideSection slide={slide} className="notes-section">
+      <div className="notes-wrapper">
+        <div className="notes summary-notes">
+          <h4>{slide.title}</h4>
+          <ul>
+            {slide.items.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </SlideSection>
+  );
+}
+
+export default SummaryNotesLayout;
@@ -0,0 +1,69 @@
+import SlideSection from "../SlideSection";
+import {
+  FINANCE_COLUMNS,
+  computeFinanceModel,
+  formatFinanceValue,
+} from "../finance";
+import type { SummaryTableSlide } from "../types";
+
+function SummaryTableLayout({ slide }: { slide: SummaryTableSlide }) {
+  const model = computeFinanceModel(slide.months);
+  const issueFor = (row: number, column: string) =>
+    model.issues.find((issue) => issue.row === row && issue.column === column);
+
+  return (
+    <SlideSection slide={slide}>
+      <div className="table-card">
+        <div className="table-wrapper wide">
+          <table>
+            <thead>
+              <tr>
+                {FINANCE_COLUMNS.map((column) => (
+                  <th key={column}>{slide.columns[column]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {model.rows.map((row, index) => (
+                <tr key={`${row.month}-${index}`}>
+                  {FINANCE_COLUMNS.map((column) => {
+                    const issue = issueFor(index, column);
+                    return (
+                      <td
+                        key={column}
+                        className={issue ? "flagged" : undefined}
+                        title={issue?.message}
+                      >
+                        {column === "month"
+                          ? row.month
+                          : formatFinanceValue(column, row[column])}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr className="total-row">
+                {FINANCE_COLUMNS.map((column) => (
+                  <td key={column}>
+                    {column === "month"
+                      ? slide.totalLabel
+                      : formatFinanceValue(column, model.total[column])}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        {model.issues.length > 0 && (
+          <ul className="finance-issues" role="alert">
+            {model.issues.map((issue) => (
+              <li key={`${issue.row}-${issue.column}`}>{issue.message}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </SlideSection>
+  );
+}
+
+export default SummaryTableLayout;
@@ -0,0 +1,45 @@
+import type { CSSProperties } from "react";
+import SlideSection from "../SlideSection";
+import type { TeamSlide } from "../types";
+
+function TeamLayout({ slide }: { slide: TeamSlide }) {
+  return (
+    <SlideSection
+      slide={slide}
+      style={
+        slide.backdrop
+          ? ({ "--team-backdrop": `url("${slide.backdrop}")` } as CSSProperties)
+          : undefined
+      }
+    >
+      <div className="team-inner">
+        <div className="team-header">
+          <div className="icon-bulb">{slide.icon}</div>
+          <div>
+            <h2>{slide.title}</h2>
+            <p>{slide.lead}</p>
+          </div>
+        </div>
+        <div className="team-grid">
+          {slide.members.map((member) => (
+            <div key={member.title} className="team-card">
+              <div className="team-avatar">
+                <img
+                  src={member.image}
+                  alt={member.title}
+                  crossOrigin="anonymous"
+                />
+              </div>
+              <div className="team-copy">
+                <h4>{member.title}</h4>
+                <p>{member.description}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </SlideSection>
+  );
+}
+
+export default TeamLayout;
@@ -0,0 +1,14 @@
+import SlideSection from "../SlideSection";
+import type { ThankYouSlide } from "../types";
+
+function ThankYouLayout({ slide }: { slide: ThankYouSlide }) {
+  return (
+    <SlideSection slide={slide}>
+      <div className="thankyou-card thankyou-simple">
+        <h2>{slide.title}</h2>
+      </div>
+    </SlideSection>
+  );
+}
+
+export default ThankYouLayout;
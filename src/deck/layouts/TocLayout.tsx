@@ -0,0 +1,46 @@
+import SlideSection from "../SlideSection";
+import type { TocSlide } from "../types";
+
+function TocLayout({ slide }: { slide: TocSlide }) {
+  return (
+    <SlideSection
+      slide={slide}
+      style={{
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: "60px 0",
+        gap: "100px",
+      }}
+    >
+      <div className="toc-left">
+        <h2>{slide.title}</h2>
+        <img
+          src={slide.image.src}
+          alt={slide.image.alt}
+          crossOrigin="anonymous"
+        />
+      </div>
+      <div className="toc-list">
+        {slide.items.map((item) => (
+          <div
+            key={item.label}
+            className="toc-item"
+            data-toc-target={item.target}
+          >
+            <span className="dot" />
+            <span>{item.label}</span>
+          </div>
+        ))}
+      </div>
+      <div className="hero-stripes" aria-hidden>
+        {Array.from({ length: 9 }).map((_, idx) => (
+          <span key={idx} />
+        ))}
+      </div>
+    </SlideSection>
+  );
+}
+
+export default TocLayout;
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { mergeFields, mergeRowLabel, parseMergeRows } from "./merge";
+
+const DEFAULTS = {
+  partner: "",
+  setupFee: 7000,
+  tiers: [{ min: 1, max: null, rate: 0.25, currency: "NT$" }],
+};
+
+describe("mergeFields", () => {
+  it("keeps a numeric-looking partner name as text", () => {
+    const [row] = parseMergeRows(
+      'partner,setupFee,tiers\n1688,9000,"[{""min"":1,""max"":null,""rate"":0.3,""currency"":""NT$""}]"\n',
+      "partners.csv"
+    );
+
+    expect(mergeRowLabel(row, 0)).toBe("1688");
+    expect(mergeFields(DEFAULTS, row)).toEqual({
+      partner: "1688",
+      setupFee: 9000,
+      tiers: [{ min: 1, max: null, rate: 0.3, currency: "NT$" }],
+    });
+  });
+
+  it("leaves a cell that is not valid JSON as written", () => {
+    const [row] = parseMergeRows("partner,setupFee\n星辰,TBD\n");
+
+    expect(mergeFields(DEFAULTS, row)).toMatchObject({
+      partner: "星辰",
+      setupFee: "TBD",
+    });
+  });
+});
@@ -0,0 +1,197 @@
+// Mail-merge for per-partner decks. Deck strings and catalog messages can hold
+// {{field}} placeholders; the deck's "fields" object gives the defaults and a
+// merge row (one partner from an uploaded CSV or JSON list) overrides them.
+
+export type MergeValue =
+  | string
+  | number
+  | boolean
+  | null
+  | MergeValue[]
+  | { [key: string]: MergeValue };
+
+export type MergeRow = Record<string, MergeValue>;
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w-]+)\s*\}\}$/;
+
+export const isMergeRow = (value: unknown): value is MergeRow =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const display = (value: MergeValue) =>
+  typeof value === "number"
+    ? value.toLocaleString("en-US")
+    : typeof value === "string"
+    ? value
+    : JSON.stringify(value);
+
+// CSV cells are all text. One for a field whose default is a number, true/false
+// or a JSON list or object (e.g. tiers) is read as JSON; text fields keep the
+// cell as written, so a partner called 1688 stays a name.
+const parseCell = (value: MergeValue, fallback: MergeValue | undefined) => {
+  if (
+    typeof value !== "string" ||
+    fallback === undefined ||
+    fallback === null ||
+    typeof fallback === "string"
+  ) {
+    return value;
+  }
+  try {
+    return JSON.parse(value) as MergeValue;
+  } catch {
+    return value;
+  }
+};
+
+// The deck's defaults overridden by a merge row
+export const mergeFields = (defaults: MergeRow, row: MergeRow): MergeRow => ({
+  ...defaults,
+  ...Object.fromEntries(
+    Object.entries(row).map(([name, value]) => [
+      name,
+      parseCell(value, defaults[name]),
+    ])
+  ),
+});
+
+export const createMerge = (fields: MergeRow) => {
+  // placeholders with no value anywhere; they stay in the text as written
+  const unknown = new Set<string>();
+
+  const lookup = (name: string) => {
+    if (name in fields) return fields[name];
+    unknown.add(name);
+    return undefined;
+  };
+
+  // Copy that names an empty field is dropped altogether, so a line such as
+  // "Prepared for {{partner}}" disappears when there is no partner
+  const fillText = (text: string) => {
+    let empty = false;
+    const filled = text.replace(PLACEHOLDER, (match, name: string) => {
+      const value = lookup(name);
+      if (value === undefined) return match;
+      if (value === null || value === "") {
+        empty = true;
+        return "";
+      }
+      return display(value);
+    });
+    return empty ? "" : filled;
+  };
+
+  // A string that is nothing but a placeholder takes the field's value as is,
+  // so numbers and lists (e.g. commission tiers) keep their type
+  const fillValue = (value: unknown, expanding: string[] = []): unknown => {
+    if (typeof value === "string") {
+      const name = WHOLE_PLACEHOLDER.exec(value)?.[1];
+      if (name && !expanding.includes(name)) {
+        const field = lookup(name);
+        if (field !== undefined) return fillValue(field, [...expanding, name]);
+      }
+      return fillText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => fillValue(item, expanding));
+    }
+    if (isMergeRow(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          fillValue(item, expanding),
+        ])
+      );
+    }
+    return value;
+  };
+
+  return { fillText, fillValue, unknown };
+};
+
+// RFC 4180: commas, quoted cells with "" escapes and line breaks inside quotes
+const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) throw new Error("The CSV ends inside a quoted cell.");
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+};
+
+const rowsFromCsv = (text: string): MergeRow[] => {
+  const [header, ...body] = parseCsv(text);
+  if (!header) return [];
+  const names = header.map((name) => name.trim());
+
+  return body.map((cells) => {
+    const row: MergeRow = {};
+    names.forEach((name, index) => {
+      // an empty cell keeps the deck's default for that field
+      if (name && cells[index]?.trim()) row[name] = cells[index].trim();
+    });
+    return row;
+  });
+};
+
+const rowsFromJson = (text: string): MergeRow[] => {
+  const data: unknown = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error("A JSON merge file must be a list of objects.");
+  }
+  return data.map((row, index) => {
+    if (!isMergeRow(row)) {
+      throw new Error(`Entry ${index + 1} of the merge file is not an object.`);
+    }
+    return row;
+  });
+};
+
+export const parseMergeRows = (text: string, fileName = ""): MergeRow[] => {
+  // spreadsheet apps like to start their CSV exports with a byte order mark
+  const source = text.replace(/^\uFEFF/, "");
+  const json = /\.json$/i.test(fileName) || /^\s*\[/.test(source);
+  const rows = json ? rowsFromJson(source) : rowsFromCsv(source);
+  if (!rows.length) throw new Error(`${fileName || "The file"} has no rows.`);
+  return rows;
+};
+
+// Names a row in file names and failure reports
+export const mergeRowLabel = (row: MergeRow, index: number) => {
+  const name = row.partner ?? row.name;
+  return typeof name === "string" && name.trim()
+    ? name.trim()
+    : `Row ${index + 1}`;
+};
@@ -0,0 +1,164 @@
+import type { CommissionTerms } from "./commission";
+import type { FinanceColumn, FinanceInputs } from "./finance";
+
+export type DeckImage = {
+  src: string;
+  alt: string;
+};
+
+type SlideBase = {
+  // section key used by exports, presets and links; defaults to the layout
+  id?: string;
+  // kept in the deck file but not rendered
+  hidden?: boolean;
+  // speaker notes, one paragraph per entry
+  notes?: string[];
+};
+
+export type HeroSlide = SlideBase & {
+  layout: "hero";
+  brandName: string;
+  title: string;
+  // left out when it names an empty merge field, e.g. "Prepared for {{partner}}"
+  subtitle?: string;
+  image: DeckImage;
+};
+
+export type TocSlide = SlideBase & {
+  layout: "toc";
+  title: string;
+  image: DeckImage;
+  // target is a slide id; without one the label is matched to slide headings
+  items: { label: string; target?: string }[];
+};
+
+export type IntroductionSlide = SlideBase & {
+  layout: "introduction";
+  title: string;
+  body: string;
+  image: DeckImage;
+};
+
+export type StatusSlide = SlideBase & {
+  layout: "status";
+  title: string;
+  body: string;
+  cards: { title: string; description: string; icon: string }[];
+};
+
+export type BusinessModelSlide = SlideBase & {
+  layout: "business-model";
+  title: string;
+  // top-left, top-right, bottom-left, bottom-right
+  callouts: { title: string; body: string }[];
+  icons: string[];
+};
+
+export type MarketSlide = SlideBase & {
+  layout: "market";
+  title: string;
+  cards: { title: string; body: string; hidden?: boolean }[];
+};
+
+export type BackendSlide = SlideBase & {
+  layout: "backend";
+  eyebrow: string;
+  title: string;
+  lead: string;
+  image: DeckImage;
+  icon: string;
+  cards: { title: string; description: string }[];
+};
+
+export type TeamSlide = SlideBase & {
+  layout: "team";
+  icon: string;
+  // photo blended behind the whole slide
+  backdrop?: string;
+  title: string;
+  lead: string;
+  members: { title: string; description: string; image: string }[];
+};
+
+export type AffiliateOption = CommissionTerms & {
+  hidden?: boolean;
+  title: string;
+  rangeHeader: string;
+  rateHeader: string;
+  text: string;
+  note: string;
+  // labels for the on-page calculator; {count} in the hint is the minimum
+  calculator: {
+    ggr: string;
+    bonuses: string;
+    activePlayers: string;
+    adminCost: string;
+    netRevenue: string;
+    rate: string;
+    commission: string;
+    minPlayersHint: string;
+  };
+};
+
+export type BrandOption = {
+  title: string;
+  rows: { label: string; value: string }[];
+  text: string;
+};
+
+export type OptionsSlide = SlideBase & {
+  layout: "options";
+  affiliate?: AffiliateOption;
+  brand: BrandOption;
+};
+
+export type ConclusionSlide = SlideBase & {
+  layout: "conclusion";
+  title: string;
+  body: string;
+  image: DeckImage;
+};
+
+export type SummaryTableSlide = SlideBase & {
+  layout: "summary-table";
+  // header label per column; the table order is fixed by the model
+  columns: Record<FinanceColumn, string>;
+  totalLabel: string;
+  // only the inputs – derived columns and totals are computed
+  months: FinanceInputs[];
+};
+
+export type SummaryNotesSlide = SlideBase & {
+  layout: "summary-notes";
+  title: string;
+  items: string[];
+};
+
+export type ThankYouSlide = SlideBase & {
+  layout: "thankyou";
+  title: string;
+};
+
+export type Slide =
+  | HeroSlide
+  | TocSlide
+  | IntroductionSlide
+  | StatusSlide
+  | BusinessModelSlide
+  | MarketSlide
+  | BackendSlide
+  | TeamSlide
+  | OptionsSlide
+  | ConclusionSlide
+  | SummaryTableSlide
+  | SummaryNotesSlide
+  | ThankYouSlide;
+
+export type SlideLayout = Slide["layout"];
+
+export type Deck = {
+  title: string;
+  // watermark on exported pages when enabled, e.g. "CONFIDENTIAL – for Acme"
+  confidential?: string;
+  slides: Slide[];
+};
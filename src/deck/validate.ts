@@ -0,0 +1,387 @@
+import {
+  DEFAULT_LOCALE,
+  createTranslator,
+  loadCatalog,
+  type Locale,
+} from "./i18n";
+import { createMerge, isMergeRow, mergeFields, type MergeRow } from "./merge";
+import type { Deck, Slide, SlideLayout } from "./types";
+
+export class DeckValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid deck:\n${issues.map((issue) => `- ${issue}`).join("\n")}`);
+    this.name = "DeckValidationError";
+    this.issues = issues;
+  }
+}
+
+// Looks up a message key in the active locale; undefined when no catalog has it
+export type Translate = (key: string) => string | undefined;
+
+type ValidationContext = {
+  issues: string[];
+  translate: Translate;
+};
+
+type Validator<T> = ((
+  value: unknown,
+  path: string,
+  ctx: ValidationContext
+) => T) & {
+  optional?: boolean;
+};
+
+const describe = (value: unknown) =>
+  Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+
+const string: Validator<string> = (value, path, ctx) => {
+  if (typeof value === "string") return value;
+  ctx.issues.push(`${path}: expected a string, got ${describe(value)}`);
+  return "";
+};
+
+// Copy shown on the slides is stored as a message key and resolved against the
+// locale catalogs
+const message: Validator<string> = (value, path, ctx) => {
+  const key = string(value, path, ctx);
+  if (!key) return key;
+  const text = ctx.translate(key);
+  if (text === undefined) {
+    ctx.issues.push(`${path}: no catalog has a message for "${key}"`);
+    return key;
+  }
+  return text;
+};
+
+const boolean: Validator<boolean> = (value, path, ctx) => {
+  if (typeof value === "boolean") return value;
+  ctx.issues.push(`${path}: expected true or false, got ${describe(value)}`);
+  return false;
+};
+
+const number: Validator<number> = (value, path, ctx) => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  ctx.issues.push(`${path}: expected a number, got ${describe(value)}`);
+  return 0;
+};
+
+const nullable =
+  <T>(validator: Validator<T>): Validator<T | null> =>
+  (value, path, ctx) =>
+    value === null ? null : validator(value, path, ctx);
+
+const literal =
+  <T extends string>(expected: T): Validator<T> =>
+  (value, path, ctx) => {
+    if (value !== expected) {
+      ctx.issues.push(
+        `${path}: expected "${expected}", got ${JSON.stringify(value)}`
+      );
+    }
+    return expected;
+  };
+
+const optional = <T>(validator: Validator<T>): Validator<T | undefined> =>
+  Object.assign(
+    (value: unknown, path: string, ctx: ValidationContext) =>
+      value === undefined ? undefined : validator(value, path, ctx),
+    { optional: true }
+  );
+
+const array =
+  <T>(item: Validator<T>, minLength = 0): Validator<T[]> =>
+  (value, path, ctx) => {
+    if (!Array.isArray(value)) {
+      ctx.issues.push(`${path}: expected a list, got ${describe(value)}`);
+      return [];
+    }
+    if (value.length < minLength) {
+      ctx.issues.push(`${path}: expected at least ${minLength} entries`);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`, ctx));
+  };
+
+const object =
+  <T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> =>
+  (value, path, ctx) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      ctx.issues.push(`${path}: expected an object, got ${describe(value)}`);
+      return {} as T;
+    }
+
+    const record = value as Record<string, unknown>;
+    const result: Partial<T> = {};
+    (Object.keys(shape) as (keyof T & string)[]).forEach((key) => {
+      const validator = shape[key];
+      if (!(key in record) && !validator.optional) {
+        ctx.issues.push(`${path}.${key}: missing required field`);
+        return;
+      }
+      const parsed = validator(record[key], `${path}.${key}`, ctx);
+      if (parsed !== undefined) result[key] = parsed;
+    });
+    return result as T;
+  };
+
+const image = object({ src: string, alt: message });
+
+const base = {
+  id: optional(string),
+  hidden: optional(boolean),
+  notes: optional(array(message)),
+};
+
+const slideValidators: {
+  [L in SlideLayout]: Validator<Extract<Slide, { layout: L }>>;
+} = {
+  hero: object({
+    ...base,
+    layout: literal("hero"),
+    brandName: message,
+    title: message,
+    subtitle: optional(message),
+    image,
+  }),
+  toc: object({
+    ...base,
+    layout: literal("toc"),
+    title: message,
+    image,
+    items: array(object({ label: message, target: optional(string) }), 1),
+  }),
+  introduction: object({
+    ...base,
+    layout: literal("introduction"),
+    title: message,
+    body: message,
+    image,
+  }),
+  status: object({
+    ...base,
+    layout: literal("status"),
+    title: message,
+    body: message,
+    cards: array(
+      object({ title: message, description: message, icon: string })
+    ),
+  }),
+  "business-model": object({
+    ...base,
+    layout: literal("business-model"),
+    title: message,
+    callouts: array(object({ title: message, body: message }), 4),
+    icons: array(string),
+  }),
+  market: object({
+    ...base,
+    layout: literal("market"),
+    title: message,
+    cards: array(
+      object({ title: message, body: message, hidden: optional(boolean) })
+    ),
+  }),
+  backend: object({
+    ...base,
+    layout: literal("backend"),
+    eyebrow: message,
+    title: message,
+    lead: message,
+    image,
+    icon: string,
+    cards: array(object({ title: message, description: message })),
+  }),
+  team: object({
+    ...base,
+    layout: literal("team"),
+    icon: string,
+    backdrop: optional(string),
+    title: message,
+    lead: message,
+    members: array(
+      object({ title: message, description: message, image: string })
+    ),
+  }),
+  options: object({
+    ...base,
+    layout: literal("options"),
+    affiliate: optional(
+      object({
+        hidden: optional(boolean),
+        title: message,
+        rangeHeader: message,
+        rateHeader: message,
+        tiers: array(
+          object({
+            min: number,
+            max: nullable(number),
+            rate: number,
+            currency: string,
+          }),
+          1
+        ),
+        adminCostRate: number,
+        minActivePlayers: number,
+        calculator: object({
+          ggr: message,
+          bonuses: message,
+          activePlayers: message,
+          adminCost: message,
+          netRevenue: message,
+          rate: message,
+          commission: message,
+          minPlayersHint: message,
+        }),
+        text: message,
+        note: message,
+      })
+    ),
+    brand: object({
+      title: message,
+      rows: array(object({ label: message, value: message })),
+      text: message,
+    }),
+  }),
+  conclusion: object({
+    ...base,
+    layout: literal("conclusion"),
+    title: message,
+    body: message,
+    image,
+  }),
+  "summary-table": object({
+    ...base,
+    layout: literal("summary-table"),
+    columns: object({
+      month: message,
+      ftd: message,
+      costPerFtd: message,
+      ftdTotalCost: message,
+      activePlayers: message,
+      depositPerPlayer: message,
+      ggrPerPlayer: message,
+      totalDeposits: message,
+      financeCost: message,
+      totalCost: message,
+      profit: message,
+    }),
+    totalLabel: message,
+    months: array(
+      object({
+        month: message,
+        ftd: number,
+        costPerFtd: number,
+        activePlayers: number,
+        depositPerPlayer: number,
+        ggrPerPlayer: number,
+        financeCost: number,
+      }),
+      1
+    ),
+  }),
+  "summary-notes": object({
+    ...base,
+    layout: literal("summary-notes"),
+    title: message,
+    items: array(message),
+  }),
+  thankyou: object({
+    ...base,
+    layout: literal("thankyou"),
+    title: message,
+  }),
+};
+
+const isLayout = (value: unknown): value is SlideLayout =>
+  typeof value === "string" && value in slideValidators;
+
+const slide: Validator<Slide | null> = (value, path, ctx) => {
+  const layout = (value as { layout?: unknown } | null)?.layout;
+  if (!isLayout(layout)) {
+    ctx.issues.push(
+      `${path}.layout: expected one of ${Object.keys(slideValidators).join(
+        ", "
+      )}, got ${JSON.stringify(layout)}`
+    );
+    return null;
+  }
+  return slideValidators[layout](value, path, ctx);
+};
+
+// Without a translator message keys are taken as literal text. Placeholders
+// are filled from the deck's "fields", overridden by the merge row if any.
+export const validateDeck = (
+  value: unknown,
+  translate: Translate = (key) => key,
+  row: MergeRow = {}
+): Deck => {
+  const issues: string[] = [];
+  const fields = (value as { fields?: unknown } | null)?.fields ?? {};
+  if (!isMergeRow(fields)) {
+    issues.push(`deck.fields: expected an object, got ${describe(fields)}`);
+  }
+  const merge = createMerge(mergeFields(isMergeRow(fields) ? fields : {}, row));
+
+  const deck = object({
+    title: message,
+    confidential: optional(message),
+    slides: array(slide, 1),
+  })(merge.fillValue(value), "deck", {
+    issues,
+    translate: (key) => {
+      const text = translate(key);
+      return text === undefined ? text : merge.fillText(text);
+    },
+  });
+  merge.unknown.forEach((name) => {
+    issues.push(`deck: no value for placeholder {{${name}}}`);
+  });
+
+  const slides = deck.slides.filter((item): item is Slide => item !== null);
+  const ids = new Set<string>();
+  slides.forEach((item, index) => {
+    const id = item.id ?? item.layout;
+    if (ids.has(id)) {
+      issues.push(
+        `deck.slides[${index}]: duplicate slide id "${id}"; give one of them an explicit "id"`
+      );
+    }
+    ids.add(id);
+  });
+
+  if (issues.length) throw new DeckValidationError(issues);
+  return { ...deck, slides };
+};
+
+export type LocalizedDeck = {
+  locale: Locale;
+  deck: Deck;
+  // keys with no text in this locale, shown in the source language instead
+  missing: string[];
+};
+
+export const DECK_URL = "/deck.json";
+
+const fetchDeck = async (url: string): Promise<unknown> => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Unable to load deck from ${url} (HTTP ${res.status}).`);
+  }
+  return res.json();
+};
+
+export const loadDeck = async (
+  url: string,
+  locale: Locale = DEFAULT_LOCALE,
+  row?: MergeRow
+): Promise<LocalizedDeck> => {
+  const [raw, catalog, fallback] = await Promise.all([
+    fetchDeck(url),
+    loadCatalog(locale),
+    loadCatalog(DEFAULT_LOCALE),
+  ]);
+  const { translate, missing } = createTranslator(catalog, fallback);
+  const deck = validateDeck(raw, translate, row);
+  return { locale, deck, missing: [...new Set(missing)] };
+};
@@ -0,0 +1,146 @@
+import html2canvas from "html2canvas";
+import { isScreenOnly, requestCors } from "./dom";
+import { SLIDE_VIEWPORT } from "./settings";
+import { PAGE_SELECTOR } from "./stage";
+import type { SectionCapture } from "./types";
+
+// Keeps html2canvas from allocating absurdly large canvases
+const MAX_CAPTURE_SCALE = 4;
+
+export const SECTION_SELECTOR = `${PAGE_SELECTOR} section`;
+
+// Stable id for a section: an explicit data-slide, else its layout class
+export const sectionKey = (section: HTMLElement, index: number) =>
+  section.dataset.slide || section.classList[0] || `slide-${index + 1}`;
+
+// All sections in DOM order, or only the given keys in the given order
+export const collectSections = (root: ParentNode, slides?: string[]) => {
+  const sections = Array.from(
+    root.querySelectorAll<HTMLElement>(SECTION_SELECTOR)
+  );
+  if (!slides) return sections;
+
+  const byKey = new Map(
+    sections.map((section, index) => [sectionKey(section, index), section])
+  );
+  return slides.flatMap((key) => byKey.get(key) ?? []);
+};
+
+// The slide's own heading, used in progress messages and errors
+export const sectionTitle = (section: HTMLElement, index: number) =>
+  section.querySelector("h1, h2")?.textContent?.replace(/\s+/g, " ").trim() ||
+  `Slide ${index + 1}`;
+
+export const NOTES_SELECTOR = ".speaker-notes";
+
+// Presenter notes from data-notes or a hidden <SpeakerNotes> child; each child
+// element of the notes block becomes its own paragraph
+export const sectionNotes = (section: HTMLElement) => {
+  if (section.dataset.notes) return section.dataset.notes.trim();
+
+  const block = section.querySelector<HTMLElement>(NOTES_SELECTOR);
+  if (!block) return "";
+
+  const paragraphs = block.children.length
+    ? Array.from(block.children).map((child) => child.textContent ?? "")
+    : [block.textContent ?? ""];
+  return paragraphs
+    .map((text) => text.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+};
+
+// An image still loading after this is captured as it is, so a server that
+// never answers cannot hold up the export
+const IMAGE_TIMEOUT_MS = 15000;
+
+const prepareImage = (img: HTMLImageElement) =>
+  new Promise<void>((resolve) => {
+    requestCors(img);
+
+    if (img.complete && img.naturalWidth !== 0) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timeout);
+      img.removeEventListener("load", done);
+      img.removeEventListener("error", done);
+      resolve();
+    };
+    const timeout = setTimeout(done, IMAGE_TIMEOUT_MS);
+
+    img.addEventListener("load", done, { once: true });
+    img.addEventListener("error", done, { once: true });
+  });
+
+// Waits for web fonts and every image so nothing is captured half-loaded
+export const prepareDocument = async (doc: Document) => {
+  // fonts are only requested once text that uses them has been laid out
+  doc.body.getBoundingClientRect();
+  await doc.fonts.ready;
+  await Promise.all(Array.from(doc.querySelectorAll("img")).map(prepareImage));
+};
+
+export const measureSection = (
+  section: HTMLElement,
+  index: number
+): SectionCapture => ({
+  section,
+  index,
+  key: sectionKey(section, index),
+  title: sectionTitle(section, index),
+  notes: sectionNotes(section),
+  width: section.scrollWidth || section.offsetWidth || SLIDE_VIEWPORT.width,
+  height: section.scrollHeight || section.offsetHeight || SLIDE_VIEWPORT.height,
+  canvas: null,
+});
+
+// scale is canvas px per CSS px of the section
+const renderSection = async (
+  section: HTMLElement,
+  index: number,
+  scale: number
+): Promise<SectionCapture> => {
+  const measured = measureSection(section, index);
+  const { width, height } = measured;
+
+  const canvas = await html2canvas(section, {
+    scale: Math.min(MAX_CAPTURE_SCALE, scale),
+    useCORS: true,
+    allowTaint: false,
+    logging: false,
+    scrollX: 0,
+    scrollY: 0,
+    width,
+    height,
+    // the clone html2canvas renders from gets the same viewport as the stage
+    windowWidth: SLIDE_VIEWPORT.width,
+    windowHeight: SLIDE_VIEWPORT.height,
+    backgroundColor: "#ffffff",
+    ignoreElements: isScreenOnly,
+  });
+
+  return { ...measured, canvas };
+};
+
+// inchesPerPx is how large one CSS px of the section ends up on the page
+export const captureSection = (
+  section: HTMLElement,
+  index: number,
+  inchesPerPx: number,
+  dpi: number
+) => renderSection(section, index, inchesPerPx * dpi);
+
+// For pixel output, where the size is given as the bitmap width
+export const captureSectionAtWidth = (
+  section: HTMLElement,
+  index: number,
+  pixelWidth: number
+) =>
+  renderSection(
+    section,
+    index,
+    pixelWidth / measureSection(section, index).width
+  );
@@ -0,0 +1,231 @@
+import html2canvas from "html2canvas";
+
+export type RgbaColor = {
+  hex: string;
+  alpha: number;
+};
+
+export type Box = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
+// Computed styles always come back as rgb()/rgba(), which is all we need to map
+export const parseCssColor = (value: string): RgbaColor | null => {
+  const match = value.match(
+    /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/
+  );
+  if (!match) return null;
+
+  const [r, g, b] = match.slice(1, 4).map((part) => Math.round(Number(part)));
+  const rawAlpha = match[4];
+  const alpha =
+    rawAlpha === undefined
+      ? 1
+      : rawAlpha.endsWith("%")
+      ? Number(rawAlpha.slice(0, -1)) / 100
+      : Number(rawAlpha);
+
+  if (alpha === 0) return null;
+
+  const hex = [r, g, b]
+    .map((channel) => channel.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+
+  return { hex, alpha };
+};
+
+// Sections are cloned into the export frame, whose elements belong to another
+// window: styles come from that window and instanceof checks against this
+// window's classes would always fail
+export const styleOf = (el: Element, pseudo?: string) =>
+  (el.ownerDocument.defaultView ?? window).getComputedStyle(el, pseudo);
+
+export const isHtmlElement = (el: Element): el is HTMLElement =>
+  el.namespaceURI === "http://www.w3.org/1999/xhtml";
+
+export const isImageElement = (el: Element): el is HTMLImageElement =>
+  el.tagName === "IMG";
+
+export const isTableElement = (el: Element): el is HTMLTableElement =>
+  el.tagName === "TABLE";
+
+// Remote images must be fetched with CORS or they taint every canvas they are
+// drawn on
+export const requestCors = (img: HTMLImageElement) => {
+  if (!img.src.startsWith("http")) return;
+  img.setAttribute("crossorigin", "anonymous");
+  img.setAttribute("referrerpolicy", "no-referrer");
+};
+
+// Interactive page furniture (calculators and the like) marked with
+// data-screen-only is left out of every export
+export const SCREEN_ONLY_SELECTOR = "[data-screen-only]";
+
+export const isScreenOnly = (el: Element) => el.matches(SCREEN_ONLY_SELECTOR);
+
+export const isRendered = (el: Element, style: CSSStyleDeclaration) => {
+  if (style.display === "none" || style.visibility === "hidden") return false;
+  if (Number(style.opacity) === 0) return false;
+  const rect = el.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0;
+};
+
+export const boxWithin = (el: Element, container: Element): Box => {
+  const rect = el.getBoundingClientRect();
+  const origin = container.getBoundingClientRect();
+  return {
+    x: rect.left - origin.left,
+    y: rect.top - origin.top,
+    w: rect.width,
+    h: rect.height,
+  };
+};
+
+export const hasOwnText = (el: Element) =>
+  Array.from(el.childNodes).some(
+    (node) => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
+  );
+
+export const normalizeText = (value: string) =>
+  value.replace(/\s+/g, " ").trim();
+
+export const primaryFontFamily = (style: CSSStyleDeclaration) =>
+  style.fontFamily
+    .split(",")[0]
+    ?.trim()
+    .replace(/^["']|["']$/g, "") || undefined;
+
+const hasPseudoContent = (el: Element, pseudo: "::before" | "::after") => {
+  const { content, display } = styleOf(el, pseudo);
+  return content !== "none" && content !== "normal" && display !== "none";
+};
+
+// Gradients, background images and ::before/::after decorations can only be
+// reproduced by painting the element's own box
+export const hasPaintedDecoration = (el: Element, style: CSSStyleDeclaration) =>
+  style.backgroundImage !== "none" ||
+  hasPseudoContent(el, "::before") ||
+  hasPseudoContent(el, "::after");
+
+// Transforms and clip paths move content away from its layout box, so the
+// whole subtree has to be rasterized as one picture
+export const hasGeometryEffect = (style: CSSStyleDeclaration) =>
+  style.transform !== "none" || style.clipPath !== "none";
+
+// Crops the visible part of an <img> (honouring object-fit: cover)
+export const imageToDataUrl = (
+  img: HTMLImageElement,
+  type: "image/png" | "image/jpeg" = "image/png",
+  quality?: number
+) => {
+  const { naturalWidth, naturalHeight } = img;
+  if (!img.complete || naturalWidth === 0) return null;
+
+  const rect = img.getBoundingClientRect();
+  const fit = styleOf(img).objectFit;
+  let sx = 0;
+  let sy = 0;
+  let sw = naturalWidth;
+  let sh = naturalHeight;
+
+  if (fit === "cover" && rect.width > 0 && rect.height > 0) {
+    const scale = Math.max(
+      rect.width / naturalWidth,
+      rect.height / naturalHeight
+    );
+    sw = rect.width / scale;
+    sh = rect.height / scale;
+    sx = (naturalWidth - sw) / 2;
+    sy = (naturalHeight - sh) / 2;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(sw));
+  canvas.height = Math.max(1, Math.round(sh));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  try {
+    ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL(type, quality);
+  } catch (err) {
+    // a tainted canvas throws a SecurityError when read back
+    console.warn("Unable to read image pixels", img.src, err);
+    return null;
+  }
+};
+
+// Paints one element; with ownBoxOnly its descendants are left out so that
+// only backgrounds, borders and pseudo-elements end up in the bitmap
+export const rasterizeElement = (el: HTMLElement, ownBoxOnly: boolean) =>
+  html2canvas(el, {
+    scale: 2,
+    useCORS: true,
+    allowTaint: false,
+    logging: false,
+    backgroundColor: null,
+    ignoreElements: (node) =>
+      isScreenOnly(node) || (ownBoxOnly && node !== el && el.contains(node)),
+  });
+
+export type TextRun = Box & {
+  text: string;
+  style: CSSStyleDeclaration;
+};
+
+// Splits the text under an element into the lines the browser actually laid
+// out, so wrapping matches the page even for CJK text without spaces
+export const readTextRuns = (el: Element, container: Element): TextRun[] => {
+  const origin = container.getBoundingClientRect();
+  const runs: TextRun[] = [];
+  const doc = el.ownerDocument;
+  const walker = doc.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  const range = doc.createRange();
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const parent = node.parentElement;
+    const value = node.textContent ?? "";
+    if (!parent || !value.trim()) continue;
+
+    const style = styleOf(parent);
+    let current: TextRun | null = null;
+
+    for (let i = 0; i < value.length; ) {
+      const codePoint = value.codePointAt(i) ?? 0;
+      const size = codePoint > 0xffff ? 2 : 1;
+      range.setStart(node, i);
+      range.setEnd(node, i + size);
+      const rect = range.getBoundingClientRect();
+      const char = value.slice(i, i + size);
+      i += size;
+
+      // collapsed whitespace has no width
+      if (!rect.width) continue;
+
+      const x = rect.left - origin.left;
+      const y = rect.top - origin.top;
+      const sameLine = current && Math.abs(current.y - y) < rect.height / 2;
+      if (!sameLine && !char.trim()) continue;
+
+      if (current && sameLine) {
+        current.text += char;
+        current.w = x + rect.width - current.x;
+        current.h = Math.max(current.h, rect.height);
+      } else {
+        if (current) runs.push(current);
+        current = { text: char, x, y, w: rect.width, h: rect.height, style };
+      }
+    }
+
+    if (current) runs.push(current);
+  }
+
+  range.detach();
+  return runs
+    .map((run) => ({ ...run, text: run.text.replace(/\s+/g, " ").trimEnd() }))
+    .filter((run) => run.text);
+};
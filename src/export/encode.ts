@@ -0,0 +1,135 @@
+import type { ExportSettings } from "./types";
+
+// Turns capture canvases into image files. Compressing a full-slide bitmap
+// takes long enough to freeze the page, so where the browser allows it the
+// pixels go to a worker that encodes them on an OffscreenCanvas; elsewhere
+// canvas.toBlob, which most browsers also run off the main thread. Either way
+// the result is a Blob, never a base64 string held alongside the canvas.
+
+export type EncodeRequest = {
+  id: number;
+  bitmap: ImageBitmap;
+  type: string;
+  quality?: number;
+};
+
+export type EncodeResponse =
+  | { id: number; blob: Blob }
+  | { id: number; error: string };
+
+type PendingEncode = {
+  resolve: (blob: Blob) => void;
+  reject: (err: Error) => void;
+};
+
+let worker: Worker | null = null;
+// set when the worker script cannot run; the page encodes from then on
+let workerFailed = false;
+let nextId = 0;
+const pending = new Map<number, PendingEncode>();
+
+const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality?: number
+) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Unable to encode the image.")),
+      type,
+      quality
+    );
+  });
+
+const canUseWorker = () =>
+  !workerFailed &&
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap !== "undefined";
+
+const stopWorker = (message: string) => {
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+  pending.forEach(({ reject }) => reject(new Error(message)));
+  pending.clear();
+};
+
+const encodeWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL("./encode.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = ({ data }: MessageEvent<EncodeResponse>) => {
+      const request = pending.get(data.id);
+      pending.delete(data.id);
+      if ("blob" in data) {
+        request?.resolve(data.blob);
+      } else {
+        request?.reject(new Error(data.error));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      stopWorker(event.message || "The image encoder stopped.");
+    };
+  }
+  return worker;
+};
+
+// The bitmap is a copy, so the canvas can be released while the worker runs
+const encodeInWorker = async (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality?: number
+) => {
+  const bitmap = await createImageBitmap(canvas);
+  return new Promise<Blob>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const request: EncodeRequest = { id, bitmap, type, quality };
+    encodeWorker().postMessage(request, [bitmap]);
+  });
+};
+
+export const encodeImage = async (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality?: number
+): Promise<Blob> => {
+  if (canUseWorker()) {
+    try {
+      return await encodeInWorker(canvas, type, quality);
+    } catch (err) {
+      console.warn("Unable to encode in a worker; encoding on the page", err);
+    }
+  }
+  return canvasToBlob(canvas, type, quality);
+};
+
+// A capture in the encoding chosen for PDF and PPTX pages
+export const encodeCanvas = async (
+  canvas: HTMLCanvasElement,
+  settings: Pick<ExportSettings, "imageEncoding" | "imageQuality">
+) =>
+  settings.imageEncoding === "jpeg"
+    ? {
+        blob: await encodeImage(canvas, "image/jpeg", settings.imageQuality),
+        format: "JPEG" as const,
+      }
+    : { blob: await encodeImage(canvas, "image/png"), format: "PNG" as const };
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Frees the pixels now rather than whenever the canvas is garbage collected
+export const releaseCanvas = (canvas: HTMLCanvasElement) => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
@@ -0,0 +1,20 @@
+import type { EncodeRequest, EncodeResponse } from "./encode";
+
+// Encodes capture bitmaps off the page's main thread; see encode.ts
+
+self.onmessage = async ({ data }: MessageEvent<EncodeRequest>) => {
+  const { id, bitmap, type, quality } = data;
+  let response: EncodeResponse;
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Unable to draw the image in the worker.");
+    ctx.drawImage(bitmap, 0, 0);
+    response = { id, blob: await canvas.convertToBlob({ type, quality }) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  } finally {
+    bitmap.close();
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,184 @@
+import { collectSections, prepareDocument, sectionTitle } from "./capture";
+import { releaseCanvas } from "./encode";
+import { createHtmlExporter } from "./html";
+import { createImagesExporter } from "./images";
+import { resolveMetadata } from "./metadata";
+import { createPdfExporter } from "./pdf";
+import { createPptxExporter } from "./pptx";
+import { resolveSettings } from "./settings";
+import { createExportStage } from "./stage";
+import type {
+  ExporterDefinition,
+  ExportOptions,
+  SectionCapture,
+} from "./types";
+
+export class ExportError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ExportError";
+  }
+}
+
+export class ExportCancelledError extends ExportError {
+  constructor() {
+    super("Export cancelled.");
+    this.name = "ExportCancelledError";
+  }
+}
+
+// Names the slide that broke so the UI can point at it
+export class SectionExportError extends ExportError {
+  readonly index: number;
+  readonly title: string;
+
+  constructor(index: number, title: string, cause: unknown) {
+    super(`Slide ${index + 1} (${title}) could not be exported.`, { cause });
+    this.name = "SectionExportError";
+    this.index = index;
+    this.title = title;
+  }
+}
+
+const exporters = new Map<string, ExporterDefinition>([
+  ["pdf", { extension: "pdf", create: createPdfExporter }],
+  ["pptx", { extension: "pptx", create: createPptxExporter }],
+  ["html", { extension: "html", create: createHtmlExporter }],
+  ["images", { extension: "zip", create: createImagesExporter }],
+]);
+
+// New formats plug in here; the UI only needs to know the format key
+export const registerExporter = (
+  format: string,
+  definition: ExporterDefinition
+) => {
+  exporters.set(format, definition);
+};
+
+const getExporter = (format: string) => {
+  const definition = exporters.get(format);
+  if (!definition) {
+    throw new ExportError(`Unknown export format "${format}".`);
+  }
+  return definition;
+};
+
+const fileBase = (baseName = "presentation") =>
+  baseName.trim() || "presentation";
+
+// The suffix tells apart the files of one run, e.g. a locale or a partner
+export const exportFileName = (
+  format: string,
+  baseName?: string,
+  suffix?: string
+) =>
+  `${fileBase(baseName)}${suffix ? `.${suffix}` : ""}.${
+    getExporter(format).extension
+  }`;
+
+export const archiveFileName = (baseName?: string) =>
+  `${fileBase(baseName)}.zip`;
+
+// A macrotask between slides lets the page paint the progress bar and handle
+// input, e.g. the cancel button
+const yieldToPage = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const elapsedSince = (start: number) => Math.round(performance.now() - start);
+
+export const exportDeck = async (
+  root: ParentNode,
+  format: string,
+  options: ExportOptions = {}
+): Promise<Blob> => {
+  const { create } = getExporter(format);
+  const { onProgress, signal, slides } = options;
+  if (!collectSections(root, slides).length) {
+    throw new ExportError("No content found to export.");
+  }
+
+  const checkCancelled = () => {
+    if (signal?.aborted) throw new ExportCancelledError();
+  };
+
+  // Sections are captured from a fixed-size copy of the page, never the live
+  // one, so the window size cannot change the output
+  const stage = await createExportStage(root);
+  try {
+    checkCancelled();
+    const sections = collectSections(stage.document, slides);
+    const total = sections.length;
+
+    onProgress?.({ stage: "preparing", index: 0, total, title: "" });
+    await prepareDocument(stage.document);
+    checkCancelled();
+
+    // an empty title falls back to the title slide of the deck being exported
+    const exporter = create({
+      ...options,
+      metadata: resolveMetadata(
+        resolveSettings(options).metadata,
+        stage.document
+      ),
+    });
+
+    // Each slide is written as soon as it is captured and its bitmap dropped
+    // straight after, so memory stays flat however long the deck is
+    const timings = { capture: 0, write: 0, finish: 0 };
+    const started = performance.now();
+    for (let i = 0; i < total; i += 1) {
+      const section = sections[i];
+      const title = sectionTitle(section, i);
+      let capture: SectionCapture | null = null;
+
+      try {
+        onProgress?.({ stage: "capturing", index: i, total, title });
+        let step = performance.now();
+        capture = await exporter.capture(section, i);
+        timings.capture += elapsedSince(step);
+        checkCancelled();
+
+        onProgress?.({ stage: "writing", index: i, total, title });
+        step = performance.now();
+        await exporter.write(capture);
+        timings.write += elapsedSince(step);
+      } catch (err) {
+        if (err instanceof ExportCancelledError) throw err;
+        throw new SectionExportError(i, title, err);
+      } finally {
+        if (capture?.canvas) releaseCanvas(capture.canvas);
+      }
+
+      await yieldToPage();
+      checkCancelled();
+    }
+
+    onProgress?.({ stage: "finishing", index: total, total, title: "" });
+    const finishing = performance.now();
+    const blob = await exporter.finish();
+    timings.finish = elapsedSince(finishing);
+    // cancelling while the file is assembled still saves nothing
+    checkCancelled();
+    if (import.meta.env.DEV) {
+      console.info(
+        `${format} export: ${total} slides in ${elapsedSince(started)} ms`,
+        timings
+      );
+    }
+    return blob;
+  } finally {
+    stage.dispose();
+  }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
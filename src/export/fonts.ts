@@ -0,0 +1,72 @@
+import type { jsPDF } from "jspdf";
+import type { PdfFontFiles } from "./types";
+
+// The TTF files are served from public/fonts. jsPDF only writes the glyphs a
+// document actually uses, so the full font never ends up in the PDF.
+export const CJK_FONT: PdfFontFiles = {
+  family: "NotoSansSC",
+  normal: "/fonts/NotoSansSC-Regular.ttf",
+  bold: "/fonts/NotoSansSC-Bold.ttf",
+};
+
+// What the built-in fonts can draw (WinAnsi); anything else needs the CJK font
+const STANDARD_FONT_TEXT =
+  /^[\x20-\xff\n\u2013\u2014\u2018\u2019\u201c\u201d\u2026]*$/;
+
+export const fitsStandardFonts = (text: string) =>
+  STANDARD_FONT_TEXT.test(text);
+
+const fontCache = new Map<string, Promise<string | null>>();
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const loadFont = (url: string) => {
+  let pending = fontCache.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then((res) => (res.ok ? res.arrayBuffer() : null))
+      .then((buffer) => (buffer ? toBase64(buffer) : null))
+      .catch(() => null);
+    fontCache.set(url, pending);
+  }
+  return pending;
+};
+
+// Whether the font's regular face is deployed; the download is kept for the
+// export that follows
+export const hasPdfFont = async (font = CJK_FONT) =>
+  Boolean(await loadFont(font.normal));
+
+// Registers a font (the CJK font unless a theme brings its own) with a jsPDF
+// document. Bold falls back to the regular face when no bold file is deployed.
+export const registerPdfFont = async (pdf: jsPDF, font = CJK_FONT) => {
+  const [normal, bold] = await Promise.all([
+    loadFont(font.normal),
+    font.bold ? loadFont(font.bold) : null,
+  ]);
+
+  if (!normal) {
+    throw new Error(
+      `Font not found at ${font.normal}; vector PDF export needs it to embed the slide text.`
+    );
+  }
+
+  const register = (data: string, style: "normal" | "bold") => {
+    const fileName = `${font.family}-${style}.ttf`;
+    pdf.addFileToVFS(fileName, data);
+    pdf.addFont(fileName, font.family, style, undefined, "Identity-H");
+  };
+
+  register(normal, "normal");
+  register(bold ?? normal, "bold");
+
+  return font.family;
+};
@@ -0,0 +1,225 @@
+import { measureSection, NOTES_SELECTOR } from "./capture";
+import { SCREEN_ONLY_SELECTOR } from "./dom";
+import { blobToDataUrl } from "./encode";
+import { PAGE_SELECTOR } from "./stage";
+import type { ExporterFactory } from "./types";
+
+// One standalone .html file: the exported sections inside a copy of .page,
+// only the CSS rules that match them, and every image and web font inlined as
+// a data URI, so the file opens from disk without the app or a network.
+
+const CSS_URL = /url\(\s*(["']?)([^"')]+)\1\s*\)/g;
+
+// Hover, focus and pseudo-element rules cannot be matched against a static
+// document; they are kept when the rest of the selector matches
+const UNMATCHABLE =
+  /::?(?:before|after|placeholder|selection|marker|first-line|first-letter)\b|:(?:hover|focus|focus-visible|focus-within|active|visited)\b/g;
+
+// Web-font stylesheets ship one @font-face per script; Latin covers the
+// deck's headings and numbers, and Chinese text uses the reader's system font
+const LATIN_RANGE = "U+0000-00FF";
+
+const FONT_FACE = /@font-face\s*\{[^}]*\}/g;
+
+const isInlined = (url: string) => url.startsWith("data:");
+
+const createInliner = () => {
+  const cache = new Map<string, Promise<string>>();
+
+  // The original URL is kept when a download fails; the file then only shows
+  // that image while online
+  const dataUrl = (url: string) => {
+    let pending = cache.get(url);
+    if (!pending) {
+      pending = fetch(url)
+        .then((res) => {
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          return res.blob();
+        })
+        .then(blobToDataUrl)
+        .catch((err) => {
+          console.warn(`Unable to inline ${url}`, err);
+          return url;
+        });
+      cache.set(url, pending);
+    }
+    return pending;
+  };
+
+  const inlineCss = async (css: string, base: string) => {
+    const urls = [...css.matchAll(CSS_URL)]
+      .map((match) => match[2])
+      .filter((url) => !isInlined(url));
+    const inlined = new Map(
+      await Promise.all(
+        urls.map(
+          async (url) => [url, await dataUrl(new URL(url, base).href)] as const
+        )
+      )
+    );
+    return css.replace(CSS_URL, (match, _quote, url: string) =>
+      inlined.has(url) ? `url("${inlined.get(url)}")` : match
+    );
+  };
+
+  const inlineElement = async (root: HTMLElement) => {
+    const base = root.ownerDocument.baseURI;
+    const images = Array.from(root.querySelectorAll("img"));
+    const styled = [root, ...Array.from(root.querySelectorAll("[style]"))];
+    await Promise.all([
+      ...images.map(async (img) => {
+        img.removeAttribute("srcset");
+        if (img.src && !isInlined(img.src)) img.src = await dataUrl(img.src);
+      }),
+      ...styled.map(async (el) => {
+        const style = el.getAttribute("style");
+        if (style?.includes("url(")) {
+          el.setAttribute("style", await inlineCss(style, base));
+        }
+      }),
+    ]);
+  };
+
+  return { inlineCss, inlineElement };
+};
+
+type Inliner = ReturnType<typeof createInliner>;
+
+const matchesSomething = (selector: string, doc: Document) => {
+  const stripped = selector.replace(UNMATCHABLE, "");
+  try {
+    return Boolean(doc.querySelector(stripped.trim() || "*"));
+  } catch {
+    // a selector this browser cannot parse is kept as written
+    return true;
+  }
+};
+
+// Cross-origin stylesheets (Google Fonts) cannot be read through the CSSOM,
+// so their text is fetched and only the Latin @font-face rules are kept
+const remoteFontFaces = async (href: string, inliner: Inliner) => {
+  try {
+    const res = await fetch(href);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const faces = ((await res.text()).match(FONT_FACE) ?? []).filter(
+      (face) => !face.includes("unicode-range") || face.includes(LATIN_RANGE)
+    );
+    return await inliner.inlineCss(faces.join("\n"), href);
+  } catch (err) {
+    console.warn(`Unable to inline the fonts from ${href}`, err);
+    return "";
+  }
+};
+
+// The rule's CSS if anything in doc uses it, else an empty string. Group
+// rules (@media, @supports) keep only their matching children.
+const usedCss = async (
+  rule: CSSRule,
+  doc: Document,
+  base: string,
+  inliner: Inliner
+): Promise<string> => {
+  if ("styleSheet" in rule && "href" in rule) {
+    return remoteFontFaces(new URL(String(rule.href), base).href, inliner);
+  }
+  if ("selectorText" in rule) {
+    return matchesSomething(String(rule.selectorText), doc)
+      ? inliner.inlineCss(rule.cssText, base)
+      : "";
+  }
+  if ("cssRules" in rule && !("name" in rule)) {
+    const children = await Promise.all(
+      Array.from(rule.cssRules as CSSRuleList, (child) =>
+        usedCss(child, doc, base, inliner)
+      )
+    );
+    const body = children.filter(Boolean).join("\n");
+    const header = rule.cssText.slice(0, rule.cssText.indexOf("{"));
+    return body ? `${header}{\n${body}\n}` : "";
+  }
+  // @font-face, @keyframes and the like
+  return inliner.inlineCss(rule.cssText, base);
+};
+
+const collectCss = async (
+  source: Document,
+  doc: Document,
+  inliner: Inliner
+) => {
+  const parts: string[] = [];
+  for (const sheet of Array.from(source.styleSheets)) {
+    const base = sheet.href ?? source.baseURI;
+    let rules: CSSRule[];
+    try {
+      rules = Array.from(sheet.cssRules);
+    } catch {
+      if (sheet.href) parts.push(await remoteFontFaces(sheet.href, inliner));
+      continue;
+    }
+    for (const rule of rules) {
+      parts.push(await usedCss(rule, doc, base, inliner));
+    }
+  }
+  return parts.filter(Boolean).join("\n");
+};
+
+export const createHtmlExporter: ExporterFactory = (options) => {
+  const { metadata, language } = options;
+  const inliner = createInliner();
+  const sections: HTMLElement[] = [];
+  let source: Document | null = null;
+  let pageStyle: string | null = null;
+
+  return {
+    capture: async (section, index) => measureSection(section, index),
+
+    write: async ({ section }) => {
+      source ??= section.ownerDocument;
+      pageStyle ??=
+        section.closest(PAGE_SELECTOR)?.getAttribute("style") ?? null;
+
+      // the calculator needs the app to work and the notes are for the
+      // presenter, so neither goes to the partner
+      const clone = section.cloneNode(true) as HTMLElement;
+      clone
+        .querySelectorAll(`${SCREEN_ONLY_SELECTOR}, ${NOTES_SELECTOR}`)
+        .forEach((el) => el.remove());
+      await inliner.inlineElement(clone);
+      sections.push(clone);
+    },
+
+    finish: async () => {
+      if (!source) throw new Error("Nothing was written to the HTML file.");
+      const doc = source.implementation.createHTMLDocument(
+        metadata?.title || source.title
+      );
+      if (language) doc.documentElement.lang = language;
+      doc.head.insertAdjacentHTML(
+        "afterbegin",
+        '<meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">'
+      );
+
+      const root = doc.createElement("div");
+      root.id = "root";
+      const page = doc.createElement("div");
+      page.className = "page";
+      if (pageStyle) {
+        page.setAttribute(
+          "style",
+          await inliner.inlineCss(pageStyle, source.baseURI)
+        );
+      }
+      page.append(...sections.map((section) => doc.importNode(section, true)));
+      root.appendChild(page);
+      doc.body.appendChild(root);
+
+      const style = doc.createElement("style");
+      style.textContent = await collectCss(source, doc, inliner);
+      doc.head.appendChild(style);
+
+      return new Blob([`<!doctype html>\n${doc.documentElement.outerHTML}`], {
+        type: "text/html;charset=utf-8",
+      });
+    },
+  };
+};
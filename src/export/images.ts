@@ -0,0 +1,152 @@
+import { captureSectionAtWidth } from "./capture";
+import { encodeImage, releaseCanvas } from "./encode";
+import { resolveSettings } from "./settings";
+import type { ExporterFactory, SequenceEncoding } from "./types";
+import { createZip, safeFileName, type ZipEntry } from "./zip";
+
+// One image per slide, e.g. 03-市场分析.png, bundled into a ZIP, plus an
+// optional contact sheet with a thumbnail of every slide.
+
+const MIME_TYPES: Record<SequenceEncoding, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+// Browsers without a WebP encoder hand back a PNG, so the extension follows
+// what was actually written
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+const SHEET_COLUMNS = 4;
+const THUMBNAIL_WIDTH = 320;
+const SHEET_GAP = 24;
+const LABEL_HEIGHT = 28;
+const LABEL_FONT_SIZE = 14;
+const THUMBNAIL_BORDER = "#d0d5dd";
+
+type Thumbnail = {
+  label: string;
+  canvas: HTMLCanvasElement;
+};
+
+const slideNumber = (index: number) => String(index + 1).padStart(2, "0");
+
+const scaleDown = (source: HTMLCanvasElement, width: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = Math.round((source.height * width) / source.width);
+  canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Labels wider than the thumbnail are cut off with an ellipsis
+const fitText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  width: number
+) => {
+  if (ctx.measureText(text).width <= width) return text;
+  let fitted = text;
+  while (fitted && ctx.measureText(`${fitted}…`).width > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+};
+
+const drawContactSheet = (
+  thumbnails: Thumbnail[],
+  font: string,
+  color: string
+) => {
+  const thumbnailHeight = Math.max(
+    ...thumbnails.map(({ canvas }) => canvas.height)
+  );
+  const cellHeight = thumbnailHeight + LABEL_HEIGHT;
+  const columns = Math.min(SHEET_COLUMNS, thumbnails.length);
+  const rows = Math.ceil(thumbnails.length / SHEET_COLUMNS);
+
+  const sheet = document.createElement("canvas");
+  sheet.width = SHEET_GAP + columns * (THUMBNAIL_WIDTH + SHEET_GAP);
+  sheet.height = SHEET_GAP + rows * (cellHeight + SHEET_GAP);
+  const ctx = sheet.getContext("2d");
+  if (!ctx) throw new Error("Unable to draw the contact sheet.");
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, sheet.width, sheet.height);
+  ctx.font = `${LABEL_FONT_SIZE}px ${font}`;
+  ctx.textBaseline = "middle";
+  ctx.strokeStyle = THUMBNAIL_BORDER;
+  ctx.fillStyle = color;
+
+  thumbnails.forEach(({ label, canvas }, index) => {
+    const x =
+      SHEET_GAP + (index % SHEET_COLUMNS) * (THUMBNAIL_WIDTH + SHEET_GAP);
+    const y =
+      SHEET_GAP + Math.floor(index / SHEET_COLUMNS) * (cellHeight + SHEET_GAP);
+    ctx.drawImage(canvas, x, y);
+    ctx.strokeRect(x + 0.5, y + 0.5, canvas.width - 1, canvas.height - 1);
+    ctx.fillText(
+      fitText(ctx, label, THUMBNAIL_WIDTH),
+      x,
+      y + thumbnailHeight + LABEL_HEIGHT / 2
+    );
+  });
+
+  return sheet;
+};
+
+export const createImagesExporter: ExporterFactory = (options) => {
+  const { theme } = options;
+  const settings = resolveSettings(options);
+  const type = MIME_TYPES[settings.sequenceEncoding];
+  // PNG is lossless and ignores the quality setting
+  const quality =
+    settings.sequenceEncoding === "png" ? undefined : settings.imageQuality;
+  const files: ZipEntry[] = [];
+  const thumbnails: Thumbnail[] = [];
+
+  const encode = async (canvas: HTMLCanvasElement, name: string) => {
+    const blob = await encodeImage(canvas, type, quality);
+    const extension = EXTENSIONS[blob.type] ?? settings.sequenceEncoding;
+    return { name: `${name}.${extension}`, data: blob };
+  };
+
+  return {
+    capture: async (section, index) =>
+      captureSectionAtWidth(section, index, settings.sequenceWidth),
+
+    write: async ({ index, title, canvas }) => {
+      if (!canvas) throw new Error("The slide was not captured.");
+      const name = [slideNumber(index), safeFileName(title)]
+        .filter(Boolean)
+        .join("-");
+      files.push(await encode(canvas, name));
+
+      if (settings.contactSheet) {
+        thumbnails.push({
+          label: `${slideNumber(index)}  ${title}`,
+          canvas: scaleDown(canvas, THUMBNAIL_WIDTH),
+        });
+      }
+    },
+
+    finish: async () => {
+      if (thumbnails.length) {
+        const sheet = drawContactSheet(
+          thumbnails,
+          theme ? `"${theme.bodyFont}", sans-serif` : "sans-serif",
+          theme ? `#${theme.text}` : "#333333"
+        );
+        // 00 sorts it ahead of the slides
+        files.unshift(await encode(sheet, "00-contact-sheet"));
+        releaseCanvas(sheet);
+        thumbnails.forEach(({ canvas }) => releaseCanvas(canvas));
+      }
+      return createZip(files);
+    },
+  };
+};
@@ -0,0 +1,137 @@
+import {
+  boxWithin,
+  hasGeometryEffect,
+  hasOwnText,
+  hasPaintedDecoration,
+  isHtmlElement,
+  isImageElement,
+  isRendered,
+  isScreenOnly,
+  isTableElement,
+  parseCssColor,
+  styleOf,
+  type Box,
+} from "./dom";
+
+// Where a section lands on the page: offset in inches plus inches per CSS px
+export type SlideFrame = {
+  x: number;
+  y: number;
+  scale: number;
+};
+
+export const toSlideBox = (box: Box, frame: SlideFrame): Box => ({
+  x: frame.x + box.x * frame.scale,
+  y: frame.y + box.y * frame.scale,
+  w: box.w * frame.scale,
+  h: box.h * frame.scale,
+});
+
+// Fits a section into a page (inside an optional margin), centred, without
+// distorting it
+export const fitFrame = (
+  sectionWidth: number,
+  sectionHeight: number,
+  pageWidth: number,
+  pageHeight: number,
+  margin = 0
+): SlideFrame => {
+  const scale = Math.min(
+    (pageWidth - margin * 2) / sectionWidth,
+    (pageHeight - margin * 2) / sectionHeight
+  );
+  return {
+    x: (pageWidth - sectionWidth * scale) / 2,
+    y: (pageHeight - sectionHeight * scale) / 2,
+    scale,
+  };
+};
+
+// One drawable piece of a section, in paint (DOM) order. Vector writers map
+// each kind onto their own primitives.
+export type SlideItem =
+  | { kind: "fill"; el: HTMLElement; style: CSSStyleDeclaration; box: Box }
+  | { kind: "decoration"; el: HTMLElement; box: Box }
+  | { kind: "raster"; el: HTMLElement; box: Box }
+  | { kind: "image"; el: HTMLImageElement; box: Box }
+  | { kind: "table"; el: HTMLTableElement; box: Box }
+  | { kind: "text"; el: HTMLElement; style: CSSStyleDeclaration; box: Box };
+
+export type LayoutOptions = {
+  // lets a writer send text it has no glyphs for (e.g. emoji) to the raster path
+  canDrawText?: (text: string) => boolean;
+};
+
+const hasVisibleBox = (style: CSSStyleDeclaration) =>
+  parseCssColor(style.backgroundColor) !== null ||
+  (parseFloat(style.borderTopWidth) > 0 &&
+    style.borderTopStyle !== "none" &&
+    parseCssColor(style.borderTopColor) !== null);
+
+export const readSectionLayout = (
+  section: HTMLElement,
+  options: LayoutOptions = {}
+): SlideItem[] => {
+  const items: SlideItem[] = [];
+  const bounds = boxWithin(section, section);
+
+  const addOwnBox = (el: HTMLElement, style: CSSStyleDeclaration, box: Box) => {
+    if (hasVisibleBox(style)) items.push({ kind: "fill", el, style, box });
+    if (hasPaintedDecoration(el, style)) {
+      items.push({ kind: "decoration", el, box });
+    }
+  };
+
+  const visit = (el: HTMLElement) => {
+    if (isScreenOnly(el)) return;
+    const style = styleOf(el);
+    if (!isRendered(el, style)) return;
+
+    const box = boxWithin(el, section);
+    const outside =
+      box.x >= bounds.w ||
+      box.y >= bounds.h ||
+      box.x + box.w <= 0 ||
+      box.y + box.h <= 0;
+    if (outside) return;
+
+    if (hasGeometryEffect(style)) {
+      items.push({ kind: "raster", el, box });
+      return;
+    }
+
+    if (isImageElement(el)) {
+      items.push({ kind: "image", el, box });
+      return;
+    }
+
+    addOwnBox(el, style, box);
+
+    if (isTableElement(el)) {
+      items.push({ kind: "table", el, box });
+      return;
+    }
+
+    if (hasOwnText(el)) {
+      const text = el.textContent ?? "";
+      const drawable = options.canDrawText?.(text) ?? true;
+      items.push(
+        drawable
+          ? { kind: "text", el, style, box }
+          : { kind: "raster", el, box }
+      );
+      return;
+    }
+
+    Array.from(el.children).forEach((child) => {
+      if (isHtmlElement(child)) visit(child);
+    });
+  };
+
+  addOwnBox(section, styleOf(section), bounds);
+  Array.from(section.children).forEach((child) => {
+    if (isHtmlElement(child)) visit(child);
+  });
+
+  return items;
+};
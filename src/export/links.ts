@@ -0,0 +1,35 @@
+import { boxWithin, normalizeText, type Box } from "./dom";
+
+// Anything marked with data-toc-target is a link; .toc-item entries without
+// one are matched against slide headings by their text
+const TOC_LINK_SELECTOR = "[data-toc-target], .toc-item";
+
+export type TocLink = {
+  box: Box;
+  target: string;
+};
+
+export type LinkTarget = {
+  key: string;
+  title: string;
+};
+
+export const readTocLinks = (section: HTMLElement): TocLink[] =>
+  Array.from(section.querySelectorAll<HTMLElement>(TOC_LINK_SELECTOR)).map(
+    (el) => ({
+      box: boxWithin(el, section),
+      target: el.dataset.tocTarget || normalizeText(el.textContent ?? ""),
+    })
+  );
+
+// Index of the page a TOC entry points at: an explicit key wins, then an exact
+// heading match, then a heading that starts with the entry text
+export const resolveLinkTarget = (target: string, pages: LinkTarget[]) => {
+  const byKey = pages.findIndex((page) => page.key === target);
+  if (byKey !== -1) return byKey;
+
+  const exact = pages.findIndex((page) => page.title === target);
+  if (exact !== -1) return exact;
+
+  return pages.findIndex((page) => page.title.startsWith(target));
+};
@@ -0,0 +1,31 @@
+import { jsPDF } from "jspdf";
+import { describe, expect, it } from "vitest";
+import { applyPdfMetadata } from "./metadata";
+import { toEncryption } from "./protection";
+import { DEFAULT_METADATA } from "./settings";
+import { decryptedTitles } from "./testing";
+
+const PROTECTION = {
+  userPassword: "open",
+  ownerPassword: "owner",
+  permissions: [],
+};
+
+describe("applyPdfMetadata", () => {
+  it("keeps a Chinese title readable in an encrypted PDF", () => {
+    const pdf = new jsPDF({ encryption: toEncryption(PROTECTION) });
+    applyPdfMetadata(pdf, { ...DEFAULT_METADATA, title: "商业计划书" });
+
+    expect(decryptedTitles(pdf, "/Producer")).toEqual(["商业计划书"]);
+  });
+
+  it("leaves the language out of an encrypted PDF", () => {
+    const plain = new jsPDF();
+    applyPdfMetadata(plain, DEFAULT_METADATA, "zh-CN");
+    const pdf = new jsPDF({ encryption: toEncryption(PROTECTION) });
+    applyPdfMetadata(pdf, DEFAULT_METADATA, "zh-CN", true);
+
+    expect(plain.output()).toContain("/Lang (zh-CN)");
+    expect(pdf.output()).not.toContain("/Lang");
+  });
+});
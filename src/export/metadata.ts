@@ -0,0 +1,126 @@
+import type { jsPDF } from "jspdf";
+import JSZip from "jszip";
+import type PptxGenJS from "pptxgenjs";
+import { SECTION_SELECTOR } from "./capture";
+import { normalizeText } from "./dom";
+import type { DocumentMetadata, ExportLanguage } from "./types";
+
+// Document properties for both formats: the PDF info dictionary and the PPTX
+// core (docProps/core.xml) and app (docProps/app.xml) properties.
+
+// The title slide's heading, e.g. 商业计划书
+export const deckTitle = (root: ParentNode) =>
+  normalizeText(
+    root.querySelector(`${SECTION_SELECTOR}[data-layout="hero"] h1`)
+      ?.textContent ?? ""
+  );
+
+export const resolveMetadata = (
+  metadata: DocumentMetadata,
+  root: ParentNode
+): DocumentMetadata => ({
+  ...metadata,
+  title: metadata.title.trim() || deckTitle(root),
+});
+
+const keywordList = (keywords: string) =>
+  keywords
+    .split(/[,，]/)
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+    .join(", ");
+
+// jsPDF converts non-ASCII strings to UTF-16BE itself, but only after
+// encrypting them, so a protected PDF would get an unreadable title. Converting
+// first writes the same bytes in a plain PDF and a readable one when encrypted.
+export const pdfTextString = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `\xfe\xff${value
+        .split("")
+        .map((unit) => {
+          const code = unit.charCodeAt(0);
+          return String.fromCharCode(code >> 8, code & 0xff);
+        })
+        .join("")}`;
+
+// PDF has no company or version entry; they go into Creator instead
+export const applyPdfMetadata = (
+  pdf: jsPDF,
+  { title, author, company, subject, keywords, version }: DocumentMetadata,
+  language?: ExportLanguage,
+  encrypted = false
+) => {
+  const creator = [company.trim(), version.trim() && `v${version.trim()}`]
+    .filter(Boolean)
+    .join(" ");
+  pdf.setDocumentProperties({
+    title: pdfTextString(title),
+    author: pdfTextString(author.trim()),
+    subject: pdfTextString(subject.trim()),
+    keywords: pdfTextString(keywordList(keywords)),
+    creator: pdfTextString(creator),
+  });
+  // jsPDF writes /Lang unencrypted and gives no hook to encrypt it, so
+  // readers would decrypt it into garbage; protected PDFs go without
+  if (language && !encrypted) pdf.setLanguage(language);
+};
+
+export const applyPptxMetadata = (
+  pptx: PptxGenJS,
+  { title, author, subject }: DocumentMetadata
+) => {
+  pptx.title = title;
+  pptx.author = author.trim();
+  pptx.subject = subject.trim();
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// pptxgenjs has no keywords, language or version, and writes the company
+// unescaped, so those are filled into the finished file
+export const patchPptxMetadata = async (
+  blob: Blob,
+  { company, keywords, version }: DocumentMetadata,
+  language?: ExportLanguage
+) => {
+  const zip = await JSZip.loadAsync(blob);
+  const core = zip.file("docProps/core.xml");
+  const app = zip.file("docProps/app.xml");
+  if (!core || !app) return blob;
+
+  const extra = [
+    ["cp:keywords", keywordList(keywords)],
+    ["dc:language", language ?? ""],
+    ["cp:version", version.trim()],
+  ]
+    .filter(([, value]) => value)
+    .map(([tag, value]) => `<${tag}>${escapeXml(value)}</${tag}>`)
+    .join("");
+  zip.file(
+    "docProps/core.xml",
+    (await core.async("string")).replace(
+      "</cp:coreProperties>",
+      `${extra}</cp:coreProperties>`
+    )
+  );
+  zip.file(
+    "docProps/app.xml",
+    (await app.async("string")).replace(
+      /<Company>.*?<\/Company>/,
+      `<Company>${escapeXml(company.trim())}</Company>`
+    )
+  );
+
+  return zip.generateAsync({
+    type: "blob",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    compression: "DEFLATE",
+  });
+};
@@ -0,0 +1,45 @@
+import { jsPDF } from "jspdf";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { stubCanvas } from "./testing";
+import { fitsStandardFonts } from "./fonts";
+import { drawPdfOverlay } from "./overlays";
+
+const PAGE = { width: 13.33, height: 7.5 };
+
+// A PDF without the CJK font: anything beyond the built-in fonts is an image
+const fontOrImage = async (text: string) =>
+  fitsStandardFonts(text) ? "helvetica" : null;
+
+// Names of the images drawn on the pages, once per use
+const drawnImages = (pdf: jsPDF) =>
+  Array.from(pdf.output().matchAll(/\/(I\d+) Do/g), ([, name]) => name);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("drawPdfOverlay", () => {
+  it("draws a Chinese watermark and footer as images stored once", async () => {
+    const drawn = stubCanvas();
+    const pdf = new jsPDF({
+      orientation: "landscape",
+      unit: "in",
+      format: [PAGE.width, PAGE.height],
+    });
+    const overlay = {
+      pageNumber: "1 / 2",
+      footer: "星辰资本 · 2026-10-19",
+      watermark: "机密",
+    };
+
+    await drawPdfOverlay(pdf, overlay, PAGE, fontOrImage);
+    pdf.addPage();
+    await drawPdfOverlay(pdf, overlay, PAGE, fontOrImage);
+
+    expect(new Set(drawn)).toEqual(new Set(["机密", "星辰资本 · 2026-10-19"]));
+    const images = drawnImages(pdf);
+    expect(images).toHaveLength(4);
+    expect(new Set(images).size).toBe(2);
+    expect(pdf.output()).toContain("(1 / 2)");
+  });
+});
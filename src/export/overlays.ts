@@ -0,0 +1,252 @@
+import { GState, type jsPDF } from "jspdf";
+import type PptxGenJS from "pptxgenjs";
+import { addTextImage, browserFont } from "./pdfTextImage";
+import type { ExportOptions, ExportSettings } from "./types";
+
+// Page number, footer and watermark. Both exporters write them as text on top
+// of the slide, never into the captured bitmap, so they can be searched and
+// survive any page size or capture resolution. A PDF without a font for the
+// text gets it as a separate image instead.
+
+export const DEFAULT_WATERMARK = "CONFIDENTIAL";
+
+const OVERLAY_COLOR = "8A94A3";
+// distance of the page number and footer from the page edges, in inches
+const EDGE_INSET = 0.25;
+const SMALL_FONT_SIZE = 8;
+const SMALL_BOX_HEIGHT = 0.25;
+// the watermark runs corner to corner over this share of the diagonal
+const WATERMARK_SPAN = 0.7;
+const WATERMARK_MAX_FONT_SIZE = 72;
+const WATERMARK_TRANSPARENCY = 80;
+// a watermark drawn as an image is page sized, so it is kept coarse
+const WATERMARK_IMAGE_DPI = 100;
+
+export type PageOverlay = {
+  pageNumber?: string;
+  footer?: string;
+  watermark?: string;
+};
+
+type PageBox = {
+  width: number;
+  height: number;
+};
+
+export const isTitleSlide = (section: HTMLElement) =>
+  section.dataset.layout === "hero";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// YYYY-MM-DD reads the same in every export language
+const exportDate = (date = new Date()) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// What page index of total carries; null leaves the page clean
+export const createOverlays = (
+  settings: ExportSettings,
+  { theme, watermarkText }: ExportOptions
+) => {
+  const footer = [settings.footerText.trim() || theme?.name, exportDate()]
+    .filter(Boolean)
+    .join(" · ");
+  const watermark = watermarkText?.trim() || DEFAULT_WATERMARK;
+
+  return (
+    index: number,
+    total: number,
+    titleSlide: boolean
+  ): PageOverlay | null => {
+    if (titleSlide && !settings.overlaysOnTitle) return null;
+    if (!settings.pageNumbers && !settings.footer && !settings.watermark) {
+      return null;
+    }
+    return {
+      pageNumber: settings.pageNumbers ? `${index + 1} / ${total}` : undefined,
+      footer: settings.footer ? footer : undefined,
+      watermark: settings.watermark ? watermark : undefined,
+    };
+  };
+};
+
+const diagonal = ({ width, height }: PageBox) => ({
+  length: Math.hypot(width, height),
+  degrees: (Math.atan2(height, width) * 180) / Math.PI,
+});
+
+// Same size and angle as the text watermark, drawn by the browser over the
+// whole page. The alias stores it once however many pages carry it.
+const addWatermarkImage = (pdf: jsPDF, text: string, page: PageBox) => {
+  const { length, degrees } = diagonal(page);
+  addTextImage(pdf, {
+    x: 0,
+    y: 0,
+    width: page.width,
+    height: page.height,
+    dpi: WATERMARK_IMAGE_DPI,
+    alias: `watermark:${text}`,
+    draw: (ctx, dpi) => {
+      ctx.font = browserFont(WATERMARK_MAX_FONT_SIZE, dpi, true);
+      const width = ctx.measureText(text).width / dpi;
+      const fontSize = Math.min(
+        WATERMARK_MAX_FONT_SIZE,
+        (WATERMARK_MAX_FONT_SIZE * length * WATERMARK_SPAN) / width
+      );
+      ctx.font = browserFont(fontSize, dpi, true);
+      ctx.fillStyle = `#${OVERLAY_COLOR}`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.translate((page.width * dpi) / 2, (page.height * dpi) / 2);
+      // the canvas turns clockwise
+      ctx.rotate((-degrees * Math.PI) / 180);
+      ctx.fillText(text, 0, 0);
+    },
+  });
+};
+
+const addFooterImage = (pdf: jsPDF, text: string, page: PageBox) => {
+  const baseline = page.height - EDGE_INSET;
+  // room under the baseline for descenders
+  const descent = (SMALL_FONT_SIZE / 72) * 0.3;
+  addTextImage(pdf, {
+    x: EDGE_INSET,
+    y: baseline - SMALL_BOX_HEIGHT,
+    width: page.width / 2 - EDGE_INSET,
+    height: SMALL_BOX_HEIGHT + descent,
+    alias: `footer:${text}`,
+    draw: (ctx, dpi) => {
+      ctx.font = browserFont(SMALL_FONT_SIZE, dpi);
+      ctx.fillStyle = `#${OVERLAY_COLOR}`;
+      ctx.fillText(text, 0, SMALL_BOX_HEIGHT * dpi);
+    },
+  });
+};
+
+// jsPDF rotates around the start of the baseline, so step back half the text
+// width along the diagonal and drop by half the cap height
+const drawWatermarkText = (
+  pdf: jsPDF,
+  text: string,
+  page: PageBox,
+  fontFamily: string
+) => {
+  const { length, degrees } = diagonal(page);
+  const radians = (degrees * Math.PI) / 180;
+  pdf.setFont(fontFamily, "bold");
+  pdf.setFontSize(1);
+  const fontSize = Math.min(
+    WATERMARK_MAX_FONT_SIZE,
+    (length * WATERMARK_SPAN) / pdf.getTextWidth(text)
+  );
+  pdf.setFontSize(fontSize);
+
+  const half = pdf.getTextWidth(text) / 2;
+  const drop = (fontSize / 72) * 0.35;
+  pdf.text(
+    text,
+    page.width / 2 - half * Math.cos(radians) + drop * Math.sin(radians),
+    page.height / 2 + half * Math.sin(radians) + drop * Math.cos(radians),
+    { angle: degrees }
+  );
+};
+
+// fontFor picks a font that has the glyphs, e.g. the CJK font for a Chinese
+// partner name, or gives null when the PDF has none and the text has to be
+// drawn as an image
+export const drawPdfOverlay = async (
+  pdf: jsPDF,
+  overlay: PageOverlay,
+  page: PageBox,
+  fontFor: (text: string) => Promise<string | null>
+) => {
+  pdf.setTextColor(`#${OVERLAY_COLOR}`);
+
+  if (overlay.watermark) {
+    const fontFamily = await fontFor(overlay.watermark);
+    pdf.saveGraphicsState();
+    pdf.setGState(new GState({ opacity: 1 - WATERMARK_TRANSPARENCY / 100 }));
+    if (fontFamily === null) {
+      addWatermarkImage(pdf, overlay.watermark, page);
+    } else {
+      drawWatermarkText(pdf, overlay.watermark, page, fontFamily);
+    }
+    pdf.restoreGraphicsState();
+  }
+
+  pdf.setFontSize(SMALL_FONT_SIZE);
+  const baseline = page.height - EDGE_INSET;
+  if (overlay.footer) {
+    const footerFont = await fontFor(overlay.footer);
+    if (footerFont === null) {
+      addFooterImage(pdf, overlay.footer, page);
+    } else {
+      pdf.setFont(footerFont, "normal");
+      pdf.text(overlay.footer, EDGE_INSET, baseline);
+    }
+  }
+  if (overlay.pageNumber) {
+    pdf.setFont("helvetica", "normal");
+    pdf.text(overlay.pageNumber, page.width - EDGE_INSET, baseline, {
+      align: "right",
+    });
+  }
+};
+
+// PowerPoint lays out the text itself, so the watermark size is estimated:
+// about 0.6 em per Latin character and a full em per CJK character
+const estimateEms = (text: string) =>
+  [...text].reduce(
+    (sum, char) => sum + ((char.codePointAt(0) ?? 0) >= 0x2e80 ? 1 : 0.6),
+    0
+  );
+
+export const addPptxOverlay = (
+  slide: PptxGenJS.Slide,
+  overlay: PageOverlay,
+  page: PageBox
+) => {
+  const small = {
+    y: page.height - EDGE_INSET - SMALL_BOX_HEIGHT,
+    w: page.width / 2 - EDGE_INSET,
+    h: SMALL_BOX_HEIGHT,
+    fontSize: SMALL_FONT_SIZE,
+    color: OVERLAY_COLOR,
+    valign: "bottom" as const,
+    margin: 0,
+  };
+
+  if (overlay.watermark) {
+    const { length, degrees } = diagonal(page);
+    const width = length * WATERMARK_SPAN;
+    const fontSize = Math.min(
+      WATERMARK_MAX_FONT_SIZE,
+      (width * 72) / estimateEms(overlay.watermark)
+    );
+    const height = (fontSize / 72) * 1.5;
+    slide.addText(overlay.watermark, {
+      x: (page.width - width) / 2,
+      y: (page.height - height) / 2,
+      w: width,
+      h: height,
+      // PowerPoint turns clockwise
+      rotate: -degrees,
+      fontSize,
+      bold: true,
+      color: OVERLAY_COLOR,
+      transparency: WATERMARK_TRANSPARENCY,
+      align: "center",
+      valign: "middle",
+      margin: 0,
+    });
+  }
+  if (overlay.footer) {
+    slide.addText(overlay.footer, { ...small, x: EDGE_INSET, align: "left" });
+  }
+  if (overlay.pageNumber) {
+    slide.addText(overlay.pageNumber, {
+      ...small,
+      x: page.width / 2,
+      align: "right",
+    });
+  }
+};
@@ -0,0 +1,163 @@
+import { jsPDF } from "jspdf";
+import { captureSection, measureSection } from "./capture";
+import { encodeCanvas } from "./encode";
+import { normalizeText } from "./dom";
+import {
+  CJK_FONT,
+  fitsStandardFonts,
+  hasPdfFont,
+  registerPdfFont,
+} from "./fonts";
+import { fitFrame, toSlideBox, type SlideFrame } from "./layout";
+import { readTocLinks, resolveLinkTarget, type TocLink } from "./links";
+import { applyPdfMetadata } from "./metadata";
+import { createOverlays, drawPdfOverlay, isTitleSlide } from "./overlays";
+import { drawNotes, NOTES_SHEET, notesSlideFrame } from "./pdfNotes";
+import { drawVectorPage } from "./pdfVector";
+import { encryptOutline, toEncryption } from "./protection";
+import { resolvePageSize, resolveSettings } from "./settings";
+import type { ExporterFactory } from "./types";
+
+export const createPdfExporter: ExporterFactory = (options) => {
+  const { mode = "image", theme, protection, language } = options;
+  const settings = resolveSettings(options);
+  const page = settings.notesPages ? NOTES_SHEET : resolvePageSize(settings);
+  const pdf = new jsPDF({
+    orientation: page.width >= page.height ? "landscape" : "portrait",
+    unit: "in",
+    format: [page.width, page.height],
+    encryption: protection && toEncryption(protection),
+  });
+  applyPdfMetadata(pdf, settings.metadata, language, Boolean(protection));
+  if (protection) encryptOutline(pdf);
+  const frameFor = (width: number, height: number) =>
+    settings.notesPages
+      ? notesSlideFrame(width, height)
+      : fitFrame(width, height, page.width, page.height, settings.margin);
+  const pdfFont = theme?.pdfFont ?? CJK_FONT;
+  // looked up straight away, so a missing font is known before any capture
+  const fontDeployed = hasPdfFont(pdfFont);
+  let fontFamily: Promise<string> | null = null;
+  const textFont = () => (fontFamily ??= registerPdfFont(pdf, pdfFont));
+  // null when the text needs the TrueType font and it is not deployed; the
+  // text is then drawn as an image
+  const fontOrImage = async (text: string) =>
+    fitsStandardFonts(text)
+      ? "helvetica"
+      : (await fontDeployed)
+      ? textFont()
+      : null;
+  // Without the TrueType font a slide the built-in fonts can draw is still
+  // written as text; any other slide fails with the missing-font error
+  const vectorFont = async (section: HTMLElement) => {
+    try {
+      return await textFont();
+    } catch (err) {
+      if (fitsStandardFonts(normalizeText(section.textContent ?? ""))) {
+        return "helvetica";
+      }
+      throw err;
+    }
+  };
+  const overlayFor = createOverlays(settings, options);
+  const pages: {
+    key: string;
+    title: string;
+    frame: SlideFrame;
+    links: TocLink[];
+    titleSlide: boolean;
+  }[] = [];
+
+  // "n / total" needs the page count, so overlays are drawn once all pages exist
+  const addOverlays = async () => {
+    for (const [index, { titleSlide }] of pages.entries()) {
+      const overlay = overlayFor(index, pages.length, titleSlide);
+      if (!overlay) continue;
+      pdf.setPage(index + 1);
+      await drawPdfOverlay(pdf, overlay, page, fontOrImage);
+    }
+  };
+
+  // Bookmarks and TOC links need every page to exist, so they go in last
+  const addNavigation = () => {
+    pages.forEach((page, index) => {
+      pdf.outline.add(null, page.title, { pageNumber: index + 1 });
+    });
+
+    pages.forEach((page, index) => {
+      if (!page.links.length) return;
+      pdf.setPage(index + 1);
+      page.links.forEach((link) => {
+        const target = resolveLinkTarget(link.target, pages);
+        if (target === -1) return;
+        const { x, y, w, h } = toSlideBox(link.box, page.frame);
+        pdf.link(x, y, w, h, { pageNumber: target + 1 });
+      });
+    });
+
+    pdf.setDisplayMode("fullpage", "continuous", "UseOutlines");
+  };
+
+  return {
+    capture: async (section, index) => {
+      const measured = measureSection(section, index);
+      if (mode === "native") return measured;
+      const { scale } = frameFor(measured.width, measured.height);
+      return captureSection(section, index, scale, settings.dpi);
+    },
+
+    write: async ({
+      section,
+      index,
+      key,
+      title,
+      notes,
+      width,
+      height,
+      canvas,
+    }) => {
+      if (index !== 0) {
+        pdf.addPage();
+      }
+
+      const frame = frameFor(width, height);
+      pages.push({
+        key,
+        title,
+        frame,
+        links: readTocLinks(section),
+        titleSlide: isTitleSlide(section),
+      });
+
+      // margins around the slide take the brand colour instead of paper white
+      if (theme && settings.margin > 0 && !settings.notesPages) {
+        pdf.setFillColor(`#${theme.background}`);
+        pdf.rect(0, 0, page.width, page.height, "F");
+      }
+
+      if (canvas) {
+        const { blob, format } = await encodeCanvas(canvas, settings);
+        pdf.addImage(
+          new Uint8Array(await blob.arrayBuffer()),
+          format,
+          frame.x,
+          frame.y,
+          width * frame.scale,
+          height * frame.scale
+        );
+      } else {
+        await drawVectorPage(pdf, section, frame, await vectorFont(section));
+      }
+
+      if (settings.notesPages) {
+        drawNotes(pdf, frame, width, height, notes, await fontOrImage(notes));
+      }
+    },
+
+    finish: async () => {
+      await addOverlays();
+      addNavigation();
+      return pdf.output("blob");
+    },
+  };
+};
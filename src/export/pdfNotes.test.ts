@@ -0,0 +1,34 @@
+import { jsPDF } from "jspdf";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { stubCanvas } from "./testing";
+import { drawNotes, NOTES_SHEET, notesSlideFrame } from "./pdfNotes";
+
+const SLIDE = { width: 13.33, height: 7.5 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("drawNotes", () => {
+  it("draws Chinese notes as an image when the PDF has no font for them", () => {
+    const lines = stubCanvas();
+    const pdf = new jsPDF({
+      unit: "in",
+      format: [NOTES_SHEET.width, NOTES_SHEET.height],
+    });
+    const notes = "强调我们的市场份额。".repeat(10);
+
+    drawNotes(
+      pdf,
+      notesSlideFrame(SLIDE.width, SLIDE.height),
+      SLIDE.width,
+      SLIDE.height,
+      notes,
+      null
+    );
+
+    expect(pdf.output()).toContain("/Subtype /Image");
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join("")).toBe(notes);
+  });
+});
@@ -0,0 +1,124 @@
+import type { jsPDF } from "jspdf";
+import { fitFrame, type SlideFrame } from "./layout";
+import { addTextImage, browserFont } from "./pdfTextImage";
+
+// Notes pages are A4 portrait: the slide in the top half, notes underneath
+export const NOTES_SHEET = {
+  width: 8.27,
+  height: 11.69,
+  margin: 0.6,
+  slideHeight: 4.6,
+  gap: 0.4,
+  fontSize: 11,
+  lineHeight: 1.5,
+};
+
+const NOTES_COLOR = "#0c1724";
+
+export const notesSlideFrame = (width: number, height: number): SlideFrame => {
+  const { width: sheetWidth, margin, slideHeight } = NOTES_SHEET;
+  const frame = fitFrame(width, height, sheetWidth - margin * 2, slideHeight);
+  return { ...frame, x: frame.x + margin, y: frame.y + margin };
+};
+
+// jsPDF only breaks lines at spaces, which never happens in Chinese text, so
+// wrap by measured width and only prefer spaces when there is one on the line.
+// measure gives a string's width in the same unit as maxWidth.
+const wrapText = (
+  measure: (text: string) => number,
+  text: string,
+  maxWidth: number
+) =>
+  text.split("\n").flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = "";
+
+    for (const char of paragraph) {
+      const candidate = line + char;
+      if (measure(candidate) <= maxWidth || !line) {
+        line = candidate;
+        continue;
+      }
+
+      const breakAt = line.lastIndexOf(" ");
+      if (breakAt > 0 && char !== " ") {
+        lines.push(line.slice(0, breakAt));
+        line = line.slice(breakAt + 1) + char;
+      } else {
+        lines.push(line);
+        line = char.trim();
+      }
+    }
+
+    lines.push(line);
+    return lines;
+  });
+
+// Cuts the notes off with an ellipsis where the page ends
+const fitLines = (lines: string[], maxLines: number) =>
+  lines.length > maxLines
+    ? [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}…`]
+    : lines;
+
+// fontFamily is null when the PDF has no font for the notes; they are then
+// drawn by the browser as an image
+export const drawNotes = (
+  pdf: jsPDF,
+  slideFrame: SlideFrame,
+  slideWidth: number,
+  slideHeight: number,
+  notes: string,
+  fontFamily: string | null
+) => {
+  const { width, height, margin, gap, fontSize, lineHeight } = NOTES_SHEET;
+  const slideBottom = slideFrame.y + slideHeight * slideFrame.scale;
+
+  pdf.setDrawColor(200, 208, 220);
+  pdf.setLineWidth(0.01);
+  pdf.rect(
+    slideFrame.x,
+    slideFrame.y,
+    slideWidth * slideFrame.scale,
+    slideHeight * slideFrame.scale,
+    "S"
+  );
+
+  if (!notes) return;
+
+  const lineStep = (fontSize / 72) * lineHeight;
+  const areaHeight = height - slideBottom - gap - margin;
+  const maxLines = Math.floor(areaHeight / lineStep);
+  const maxWidth = width - margin * 2;
+
+  if (fontFamily === null) {
+    addTextImage(pdf, {
+      x: margin,
+      y: slideBottom + gap,
+      width: maxWidth,
+      height: areaHeight,
+      draw: (ctx, dpi) => {
+        ctx.font = browserFont(fontSize, dpi);
+        ctx.fillStyle = NOTES_COLOR;
+        ctx.textBaseline = "top";
+        const measure = (text: string) => ctx.measureText(text).width / dpi;
+        fitLines(wrapText(measure, notes, maxWidth), maxLines).forEach(
+          (line, index) => ctx.fillText(line, 0, index * lineStep * dpi)
+        );
+      },
+    });
+    return;
+  }
+
+  pdf.setFont(fontFamily, "normal");
+  pdf.setFontSize(fontSize);
+  pdf.setTextColor(NOTES_COLOR);
+
+  const lines = fitLines(
+    wrapText((text) => pdf.getTextWidth(text), notes, maxWidth),
+    maxLines
+  );
+  pdf.text(lines, margin, slideBottom + gap, {
+    baseline: "top",
+    lineHeightFactor: lineHeight,
+  });
+};
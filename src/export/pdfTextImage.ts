@@ -0,0 +1,40 @@
+import type { jsPDF } from "jspdf";
+import { releaseCanvas } from "./encode";
+
+// Text the PDF has no font for (Chinese without the CJK TrueType file) is
+// drawn by the browser, which always has the glyphs, and placed as an image.
+
+const TEXT_IMAGE_DPI = 200;
+const BROWSER_FONT = "sans-serif";
+
+export type TextImage = {
+  // page position and size in inches
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // pixels per inch of the canvas; TEXT_IMAGE_DPI when omitted
+  dpi?: number;
+  // lets jsPDF store an image repeated on every page only once
+  alias?: string;
+  draw: (ctx: CanvasRenderingContext2D, dpi: number) => void;
+};
+
+// CSS font for a size given in points, at the canvas resolution
+export const browserFont = (fontSize: number, dpi: number, bold = false) =>
+  `${bold ? "bold " : ""}${(fontSize / 72) * dpi}px ${BROWSER_FONT}`;
+
+export const addTextImage = (
+  pdf: jsPDF,
+  { x, y, width, height, dpi = TEXT_IMAGE_DPI, alias, draw }: TextImage
+) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * dpi));
+  canvas.height = Math.max(1, Math.round(height * dpi));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Unable to draw text without a canvas.");
+
+  draw(ctx, dpi);
+  pdf.addImage(canvas, "PNG", x, y, width, height, alias);
+  releaseCanvas(canvas);
+};
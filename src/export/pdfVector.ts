@@ -0,0 +1,168 @@
+import { GState, type jsPDF } from "jspdf";
+import {
+  boxWithin,
+  imageToDataUrl,
+  parseCssColor,
+  rasterizeElement,
+  readTextRuns,
+  styleOf,
+  type Box,
+} from "./dom";
+import { readSectionLayout, toSlideBox, type SlideFrame } from "./layout";
+
+const PT_PER_INCH = 72;
+const SIDES = ["Top", "Right", "Bottom", "Left"] as const;
+
+// The embedded CJK font has no emoji, so those go through html2canvas instead
+const EMOJI = /\p{Extended_Pictographic}/u;
+
+const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(0, 2), 16),
+  parseInt(hex.slice(2, 4), 16),
+  parseInt(hex.slice(4, 6), 16),
+];
+
+const withOpacity = (pdf: jsPDF, alpha: number, draw: () => void) => {
+  if (alpha >= 1) {
+    draw();
+    return;
+  }
+  pdf.saveGraphicsState();
+  pdf.setGState(new GState({ opacity: alpha, "stroke-opacity": alpha }));
+  draw();
+  pdf.restoreGraphicsState();
+};
+
+const drawBox = (
+  pdf: jsPDF,
+  style: CSSStyleDeclaration,
+  box: Box,
+  frame: SlideFrame
+) => {
+  const { x, y, w, h } = toSlideBox(box, frame);
+  const fill = parseCssColor(style.backgroundColor);
+  const radius = (parseFloat(style.borderTopLeftRadius) || 0) * frame.scale;
+
+  if (fill) {
+    withOpacity(pdf, fill.alpha, () => {
+      pdf.setFillColor(...hexToRgb(fill.hex));
+      if (radius) {
+        pdf.roundedRect(x, y, w, h, radius, radius, "F");
+      } else {
+        pdf.rect(x, y, w, h, "F");
+      }
+    });
+  }
+
+  SIDES.forEach((side) => {
+    const width = parseFloat(style.getPropertyValue(`border-${side}-width`));
+    const color = parseCssColor(style.getPropertyValue(`border-${side}-color`));
+    if (
+      !width ||
+      !color ||
+      style.getPropertyValue(`border-${side}-style`) === "none"
+    ) {
+      return;
+    }
+
+    withOpacity(pdf, color.alpha, () => {
+      pdf.setDrawColor(...hexToRgb(color.hex));
+      pdf.setLineWidth(width * frame.scale);
+      const inset = (width * frame.scale) / 2;
+      if (side === "Top") pdf.line(x, y + inset, x + w, y + inset);
+      if (side === "Bottom") pdf.line(x, y + h - inset, x + w, y + h - inset);
+      if (side === "Left") pdf.line(x + inset, y, x + inset, y + h);
+      if (side === "Right") pdf.line(x + w - inset, y, x + w - inset, y + h);
+    });
+  });
+};
+
+const drawText = (
+  pdf: jsPDF,
+  el: Element,
+  section: HTMLElement,
+  frame: SlideFrame,
+  fontFamily: string
+) => {
+  readTextRuns(el, section).forEach((run) => {
+    const color = parseCssColor(run.style.color);
+    if (!color) return;
+
+    const { x, y, h } = toSlideBox(run, frame);
+    const fontSize = parseFloat(run.style.fontSize) || 16;
+
+    pdf.setFont(
+      fontFamily,
+      Number(run.style.fontWeight) >= 600 ? "bold" : "normal"
+    );
+    pdf.setFontSize(fontSize * frame.scale * PT_PER_INCH);
+    pdf.setTextColor(...hexToRgb(color.hex));
+    withOpacity(pdf, color.alpha, () => {
+      pdf.text(run.text, x, y + h / 2, { baseline: "middle" });
+    });
+  });
+};
+
+const drawRaster = async (
+  pdf: jsPDF,
+  el: HTMLElement,
+  box: Box,
+  frame: SlideFrame,
+  ownBoxOnly: boolean
+) => {
+  try {
+    const canvas = await rasterizeElement(el, ownBoxOnly);
+    const { x, y, w, h } = toSlideBox(box, frame);
+    pdf.addImage(canvas, "PNG", x, y, w, h);
+  } catch (err) {
+    console.warn("Unable to rasterize element for PDF", el, err);
+  }
+};
+
+// Draws a section onto the current PDF page as vector shapes and real text.
+// Only photos (and elements with gradients, transforms or emoji) are bitmaps.
+export const drawVectorPage = async (
+  pdf: jsPDF,
+  section: HTMLElement,
+  frame: SlideFrame,
+  fontFamily: string
+) => {
+  const items = readSectionLayout(section, {
+    canDrawText: (text) => !EMOJI.test(text),
+  });
+
+  for (const item of items) {
+    switch (item.kind) {
+      case "fill":
+        drawBox(pdf, item.style, item.box, frame);
+        break;
+      case "decoration":
+        await drawRaster(pdf, item.el, item.box, frame, true);
+        break;
+      case "raster":
+        await drawRaster(pdf, item.el, item.box, frame, false);
+        break;
+      case "image": {
+        const data = imageToDataUrl(item.el, "image/jpeg", 0.9);
+        if (data) {
+          const { x, y, w, h } = toSlideBox(item.box, frame);
+          pdf.addImage(data, "JPEG", x, y, w, h);
+        } else {
+          await drawRaster(pdf, item.el, item.box, frame, false);
+        }
+        break;
+      }
+      case "table":
+        Array.from(item.el.rows).forEach((row) => {
+          Array.from(row.cells).forEach((cell) => {
+            drawBox(pdf, styleOf(cell), boxWithin(cell, section), frame);
+            drawText(pdf, cell, section, frame, fontFamily);
+          });
+        });
+        break;
+      case "text":
+        drawText(pdf, item.el, section, frame, fontFamily);
+        break;
+    }
+  }
+};
@@ -0,0 +1,96 @@
+import PptxGenJS from "pptxgenjs";
+import { captureSection, measureSection } from "./capture";
+import { blobToDataUrl, encodeCanvas } from "./encode";
+import { fitFrame } from "./layout";
+import { applyPptxMetadata, patchPptxMetadata } from "./metadata";
+import { addPptxOverlay, createOverlays, isTitleSlide } from "./overlays";
+import { addNativeSlide } from "./pptxNative";
+import { resolvePageSize, resolveSettings } from "./settings";
+import type { ExporterFactory } from "./types";
+
+const CUSTOM_LAYOUT = "DECK_CUSTOM";
+const THEME_MASTER = "DECK_THEME";
+
+export const createPptxExporter: ExporterFactory = (options) => {
+  const { mode = "image", theme, language } = options;
+  const settings = resolveSettings(options);
+  const page = resolvePageSize(settings);
+  const pptx = new PptxGenJS();
+  applyPptxMetadata(pptx, settings.metadata);
+
+  // Theme fonts become the presentation's heading/body fonts, and a master
+  // in the brand colour sits behind every slide so margins match the deck
+  if (theme) {
+    pptx.theme = {
+      headFontFace: theme.headingFont,
+      bodyFontFace: theme.bodyFont,
+    };
+    pptx.defineSlideMaster({
+      title: THEME_MASTER,
+      background: { color: theme.background },
+    });
+  }
+
+  if (page.pptxLayout) {
+    pptx.layout = page.pptxLayout;
+  } else {
+    pptx.defineLayout({
+      name: CUSTOM_LAYOUT,
+      width: page.width,
+      height: page.height,
+    });
+    pptx.layout = CUSTOM_LAYOUT;
+  }
+
+  const frameFor = (width: number, height: number) =>
+    fitFrame(width, height, page.width, page.height, settings.margin);
+  const overlayFor = createOverlays(settings, options);
+  const slides: { slide: PptxGenJS.Slide; titleSlide: boolean }[] = [];
+
+  return {
+    capture: async (section, index) => {
+      const measured = measureSection(section, index);
+      if (mode === "native") return measured;
+      const { scale } = frameFor(measured.width, measured.height);
+      return captureSection(section, index, scale, settings.dpi);
+    },
+
+    write: async ({ section, notes, width, height, canvas }) => {
+      const slide = pptx.addSlide(
+        theme ? { masterName: THEME_MASTER } : undefined
+      );
+      const frame = frameFor(width, height);
+      slides.push({ slide, titleSlide: isTitleSlide(section) });
+
+      if (notes) {
+        slide.addNotes(notes);
+      }
+
+      if (!canvas) {
+        await addNativeSlide(slide, section, frame);
+        return;
+      }
+
+      // pptxgenjs only takes data URLs and holds them until the file is written
+      const { blob } = await encodeCanvas(canvas, settings);
+      slide.addImage({
+        data: await blobToDataUrl(blob),
+        x: frame.x,
+        y: frame.y,
+        w: width * frame.scale,
+        h: height * frame.scale,
+      });
+    },
+
+    // text boxes added last sit above the slide content; "n / total" also
+    // needs the slide count
+    finish: async () => {
+      slides.forEach(({ slide, titleSlide }, index) => {
+        const overlay = overlayFor(index, slides.length, titleSlide);
+        if (overlay) addPptxOverlay(slide, overlay, page);
+      });
+      const blob = (await pptx.write({ outputType: "blob" })) as Blob;
+      return patchPptxMetadata(blob, settings.metadata, language);
+    },
+  };
+};
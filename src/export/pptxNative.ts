@@ -0,0 +1,246 @@
+import PptxGenJS from "pptxgenjs";
+import {
+  imageToDataUrl,
+  normalizeText,
+  parseCssColor,
+  primaryFontFamily,
+  rasterizeElement,
+  styleOf,
+  type Box,
+} from "./dom";
+import { readSectionLayout, toSlideBox, type SlideFrame } from "./layout";
+
+const PT_PER_INCH = 72;
+
+const transparencyOf = (alpha: number) => Math.round((1 - alpha) * 100);
+
+const toAlign = (textAlign: string): PptxGenJS.HAlign => {
+  if (textAlign === "center") return "center";
+  if (textAlign === "right" || textAlign === "end") return "right";
+  if (textAlign === "justify") return "justify";
+  return "left";
+};
+
+const textOptions = (
+  style: CSSStyleDeclaration,
+  frame: SlideFrame
+): PptxGenJS.TextBaseProps => {
+  const color = parseCssColor(style.color);
+  const fontSize = parseFloat(style.fontSize) || 16;
+
+  return {
+    fontFace: primaryFontFamily(style),
+    fontSize: Math.max(1, fontSize * frame.scale * PT_PER_INCH),
+    bold: Number(style.fontWeight) >= 600,
+    italic: style.fontStyle === "italic",
+    color: color?.hex,
+    align: toAlign(style.textAlign),
+  };
+};
+
+const borderOf = (
+  style: CSSStyleDeclaration,
+  side: "Top" | "Right" | "Bottom" | "Left",
+  frame: SlideFrame
+): PptxGenJS.BorderProps => {
+  const width = parseFloat(style.getPropertyValue(`border-${side}-width`));
+  const color = parseCssColor(style.getPropertyValue(`border-${side}-color`));
+  const lineStyle = style.getPropertyValue(`border-${side}-style`);
+
+  if (!width || !color || lineStyle === "none") return { type: "none" };
+
+  return {
+    type: lineStyle === "dashed" ? "dash" : "solid",
+    pt: width * frame.scale * PT_PER_INCH,
+    color: color.hex,
+  };
+};
+
+const addRaster = async (
+  slide: PptxGenJS.Slide,
+  el: HTMLElement,
+  box: Box,
+  frame: SlideFrame,
+  ownBoxOnly: boolean
+) => {
+  try {
+    const canvas = await rasterizeElement(el, ownBoxOnly);
+    slide.addImage({
+      data: canvas.toDataURL("image/png"),
+      ...toSlideBox(box, frame),
+    });
+  } catch (err) {
+    console.warn("Unable to rasterize element for PPT", el, err);
+  }
+};
+
+const addBoxShape = (
+  slide: PptxGenJS.Slide,
+  style: CSSStyleDeclaration,
+  box: Box,
+  frame: SlideFrame
+) => {
+  const fill = parseCssColor(style.backgroundColor);
+  const border = borderOf(style, "Top", frame);
+  const hasBorder = border.type !== "none";
+  if (!fill && !hasBorder) return;
+
+  const radius = parseFloat(style.borderTopLeftRadius) || 0;
+
+  slide.addShape(radius ? "roundRect" : "rect", {
+    ...toSlideBox(box, frame),
+    rectRadius: radius ? radius * frame.scale : undefined,
+    fill: fill
+      ? { color: fill.hex, transparency: transparencyOf(fill.alpha) }
+      : { type: "none" },
+    line: hasBorder
+      ? { color: border.color, width: border.pt }
+      : { type: "none" },
+  });
+};
+
+const addTextBox = (
+  slide: PptxGenJS.Slide,
+  el: HTMLElement,
+  style: CSSStyleDeclaration,
+  box: Box,
+  frame: SlideFrame
+) => {
+  const text = normalizeText(el.innerText || el.textContent || "");
+  if (!text) return;
+
+  const lineHeight = parseFloat(style.lineHeight);
+  const fontSize = parseFloat(style.fontSize) || 16;
+
+  slide.addText(text, {
+    ...toSlideBox(box, frame),
+    ...textOptions(style, frame),
+    margin: 0,
+    valign: "top",
+    wrap: true,
+    fit: "none",
+    lineSpacingMultiple: lineHeight ? lineHeight / fontSize : undefined,
+  });
+};
+
+const columnCount = (row: HTMLTableRowElement) =>
+  Array.from(row.cells).reduce((sum, cell) => sum + cell.colSpan, 0);
+
+// Column widths come from the widest row, preferring the one with the most
+// separate cells; a cell spanning columns there is split evenly
+const columnWidths = (table: HTMLTableElement, frame: SlideFrame) => {
+  const widest = Array.from(table.rows).reduce<HTMLTableRowElement | null>(
+    (best, row) =>
+      !best ||
+      columnCount(row) > columnCount(best) ||
+      (columnCount(row) === columnCount(best) &&
+        row.cells.length > best.cells.length)
+        ? row
+        : best,
+    null
+  );
+  return Array.from(widest?.cells ?? []).flatMap((cell) =>
+    Array<number>(cell.colSpan).fill(
+      (cell.getBoundingClientRect().width * frame.scale) / cell.colSpan
+    )
+  );
+};
+
+const addNativeTable = (
+  slide: PptxGenJS.Slide,
+  table: HTMLTableElement,
+  box: Box,
+  frame: SlideFrame
+) => {
+  const rows: PptxGenJS.TableRow[] = [];
+  const rowH: number[] = [];
+
+  Array.from(table.rows).forEach((row) => {
+    const cells = Array.from(row.cells);
+    rowH.push(row.getBoundingClientRect().height * frame.scale);
+
+    rows.push(
+      cells.map((cell) => {
+        const style = styleOf(cell);
+        const fill = parseCssColor(style.backgroundColor);
+        return {
+          text: normalizeText(cell.innerText || cell.textContent || ""),
+          options: {
+            ...textOptions(style, frame),
+            valign: "middle",
+            colspan: cell.colSpan > 1 ? cell.colSpan : undefined,
+            rowspan: cell.rowSpan > 1 ? cell.rowSpan : undefined,
+            fill: fill
+              ? { color: fill.hex, transparency: transparencyOf(fill.alpha) }
+              : undefined,
+            margin: [
+              parseFloat(style.paddingTop) * frame.scale,
+              parseFloat(style.paddingRight) * frame.scale,
+              parseFloat(style.paddingBottom) * frame.scale,
+              parseFloat(style.paddingLeft) * frame.scale,
+            ],
+            border: [
+              borderOf(style, "Top", frame),
+              borderOf(style, "Right", frame),
+              borderOf(style, "Bottom", frame),
+              borderOf(style, "Left", frame),
+            ],
+          },
+        };
+      })
+    );
+  });
+
+  if (!rows.length) return;
+
+  slide.addTable(rows, {
+    ...toSlideBox(box, frame),
+    colW: columnWidths(table, frame),
+    rowH,
+  });
+};
+
+// Rebuilds a section as editable PowerPoint objects: solid backgrounds become
+// shapes, text blocks become text boxes, <table>s become native tables and
+// <img>s are embedded on their own. Anything that can't be expressed that way
+// (gradients, transforms, clip paths) falls back to a bitmap of that element.
+export const addNativeSlide = async (
+  slide: PptxGenJS.Slide,
+  section: HTMLElement,
+  frame: SlideFrame
+) => {
+  for (const item of readSectionLayout(section)) {
+    switch (item.kind) {
+      case "fill":
+        // only a section with its own fill replaces the master background
+        if (item.el === section) {
+          const color = parseCssColor(item.style.backgroundColor);
+          if (color) slide.background = { color: color.hex };
+        } else {
+          addBoxShape(slide, item.style, item.box, frame);
+        }
+        break;
+      case "decoration":
+        await addRaster(slide, item.el, item.box, frame, true);
+        break;
+      case "raster":
+        await addRaster(slide, item.el, item.box, frame, false);
+        break;
+      case "image": {
+        const data = imageToDataUrl(item.el);
+        if (data) {
+          slide.addImage({ data, ...toSlideBox(item.box, frame) });
+        } else {
+          await addRaster(slide, item.el, item.box, frame, false);
+        }
+        break;
+      }
+      case "table":
+        addNativeTable(slide, item.el, item.box, frame);
+        break;
+      case "text":
+        addTextBox(slide, item.el, item.style, item.box, frame);
+        break;
+    }
+  }
+};
@@ -0,0 +1,236 @@
+import {
+  collectSections,
+  prepareDocument,
+  sectionKey,
+  sectionTitle,
+} from "./capture";
+import {
+  hasOwnText,
+  isHtmlElement,
+  SCREEN_ONLY_SELECTOR,
+  primaryFontFamily,
+  styleOf,
+} from "./dom";
+import { createExportStage } from "./stage";
+
+// Checks the deck the way the exporters will see it (in the export stage) and
+// reports what would come out wrong, before anyone opens the file
+
+export type PreflightSeverity = "error" | "warning";
+
+export type PreflightIssue = {
+  severity: PreflightSeverity;
+  message: string;
+  // child indexes from the section down to the offending element, so the
+  // report can point at the same element on the live page
+  path: number[];
+};
+
+export type PreflightSlide = {
+  key: string;
+  title: string;
+  issues: PreflightIssue[];
+};
+
+const TABLE_WRAPPER_SELECTOR = ".table-wrapper";
+
+const GENERIC_FONTS = new Set([
+  "serif",
+  "sans-serif",
+  "monospace",
+  "cursive",
+  "fantasy",
+  "system-ui",
+  "ui-serif",
+  "ui-sans-serif",
+  "ui-monospace",
+  "ui-rounded",
+  "emoji",
+  "math",
+  "fangsong",
+  "-apple-system",
+  "BlinkMacSystemFont",
+]);
+
+// Allow for sub-pixel rounding in layout
+const TOLERANCE_PX = 1;
+
+const elementPath = (el: Element, section: Element) => {
+  const path: number[] = [];
+  for (let node = el; node !== section && node.parentElement; ) {
+    path.unshift(Array.from(node.parentElement.children).indexOf(node));
+    node = node.parentElement;
+  }
+  return path;
+};
+
+const elementAtPath = (section: Element, path: number[]) =>
+  path.reduce<Element | undefined>(
+    (node, index) => node?.children[index],
+    section
+  );
+
+// The element on the given page that an issue was reported for, falling back
+// to its section when the page has changed since the check
+export const locatePreflightIssue = (
+  root: ParentNode,
+  key: string,
+  issue: PreflightIssue
+) => {
+  const section = collectSections(root).find(
+    (item, index) => sectionKey(item, index) === key
+  );
+  if (!section) return null;
+  const target = elementAtPath(section, issue.path);
+  return target && isHtmlElement(target) ? target : section;
+};
+
+// Slides are a fixed 16:9 box; anything taller or wider makes the exporters
+// measure a larger section and shrink all of it to fit the page
+const checkOverflow = (section: HTMLElement): PreflightIssue[] => {
+  const { scrollWidth, scrollHeight, clientWidth, clientHeight } = section;
+  if (
+    scrollWidth <= clientWidth + TOLERANCE_PX &&
+    scrollHeight <= clientHeight + TOLERANCE_PX
+  ) {
+    return [];
+  }
+
+  return [
+    {
+      severity: "warning",
+      message: `Content measures ${scrollWidth}×${scrollHeight}px but the slide is ${clientWidth}×${clientHeight}px; the whole slide will be shrunk to fit the page.`,
+      path: [],
+    },
+  ];
+};
+
+const checkTables = (section: HTMLElement): PreflightIssue[] =>
+  Array.from(section.querySelectorAll(TABLE_WRAPPER_SELECTOR))
+    .filter(isHtmlElement)
+    .flatMap((wrapper) => {
+      const hiddenX = wrapper.scrollWidth - wrapper.clientWidth;
+      const hiddenY = wrapper.scrollHeight - wrapper.clientHeight;
+      if (hiddenX <= TOLERANCE_PX && hiddenY <= TOLERANCE_PX) return [];
+
+      const parts = [
+        hiddenX > TOLERANCE_PX && `${hiddenX}px to the right`,
+        hiddenY > TOLERANCE_PX && `${hiddenY}px below`,
+      ].filter(Boolean);
+      return {
+        severity: "error" as const,
+        message: `Table is cut off (${parts.join(
+          ", "
+        )}); scrolled content is not exported.`,
+        path: elementPath(wrapper, section),
+      };
+    });
+
+// Reading pixels back throws for images loaded without CORS permission
+const isTainted = (img: HTMLImageElement) => {
+  const canvas = img.ownerDocument.createElement("canvas");
+  canvas.width = 1;
+  canvas.height = 1;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return false;
+  try {
+    ctx.drawImage(img, 0, 0, 1, 1);
+    ctx.getImageData(0, 0, 1, 1);
+    return false;
+  } catch {
+    return true;
+  }
+};
+
+const checkImages = (section: HTMLElement): PreflightIssue[] =>
+  Array.from(section.querySelectorAll("img"))
+    .filter((img) => !img.closest(SCREEN_ONLY_SELECTOR))
+    .flatMap((img) => {
+      const path = elementPath(img, section);
+      const name = img.alt || img.src.split("/").pop() || img.src;
+      if (!img.complete || img.naturalWidth === 0) {
+        return {
+          severity: "error" as const,
+          message: `Image "${name}" failed to load and will be blank.`,
+          path,
+        };
+      }
+      if (isTainted(img)) {
+        return {
+          severity: "error" as const,
+          message: `Image "${name}" was blocked by CORS and will be left out of the export.`,
+          path,
+        };
+      }
+      return [];
+    });
+
+// A family is available when text set in it measures differently from the
+// same text in a bare fallback family; otherwise the browser substituted it
+const createFontProbe = (doc: Document) => {
+  const ctx = doc.createElement("canvas").getContext("2d");
+  const sample = "Hamburgefonstiv 商业计划书 0123456789";
+  const cache = new Map<string, boolean>();
+
+  const widthIn = (font: string) => {
+    if (!ctx) return 0;
+    ctx.font = `32px ${font}`;
+    return ctx.measureText(sample).width;
+  };
+
+  return (family: string) => {
+    if (GENERIC_FONTS.has(family) || !ctx) return true;
+    let available = cache.get(family);
+    if (available === undefined) {
+      available = ["monospace", "serif"].some(
+        (fallback) => widthIn(`"${family}", ${fallback}`) !== widthIn(fallback)
+      );
+      cache.set(family, available);
+    }
+    return available;
+  };
+};
+
+const checkFonts = (
+  section: HTMLElement,
+  isAvailable: (family: string) => boolean
+): PreflightIssue[] => {
+  const reported = new Set<string>();
+  const issues: PreflightIssue[] = [];
+  section.querySelectorAll("*").forEach((el) => {
+    if (!hasOwnText(el) || el.closest(SCREEN_ONLY_SELECTOR)) return;
+    const family = primaryFontFamily(styleOf(el));
+    if (!family || reported.has(family) || isAvailable(family)) return;
+    reported.add(family);
+    issues.push({
+      severity: "warning",
+      message: `Font "${family}" is not loaded; text will use a fallback font.`,
+      path: elementPath(el, section),
+    });
+  });
+  return issues;
+};
+
+export const runPreflight = async (
+  root: ParentNode
+): Promise<PreflightSlide[]> => {
+  const stage = await createExportStage(root);
+
+  try {
+    await prepareDocument(stage.document);
+    const isAvailable = createFontProbe(stage.document);
+
+    return collectSections(stage.document).map((section, index) => ({
+      key: sectionKey(section, index),
+      title: sectionTitle(section, index),
+      issues: [
+        ...checkOverflow(section),
+        ...checkTables(section),
+        ...checkImages(section),
+        ...checkFonts(section, isAvailable),
+      ],
+    }));
+  } finally {
+    stage.dispose();
+  }
+};
@@ -0,0 +1,25 @@
+import { jsPDF } from "jspdf";
+import { describe, expect, it } from "vitest";
+import { encryptOutline, toEncryption } from "./protection";
+import { decryptedTitles } from "./testing";
+
+const PROTECTION = {
+  userPassword: "open",
+  ownerPassword: "owner",
+  permissions: [],
+};
+
+describe("encryptOutline", () => {
+  it("encrypts bookmark titles like every other string", () => {
+    const pdf = new jsPDF({ encryption: toEncryption(PROTECTION) });
+    encryptOutline(pdf);
+    pdf.setDocumentProperties({ title: "Pitch" });
+    pdf.addPage();
+    pdf.outline.add(null, "Intro", { pageNumber: 1 });
+    pdf.outline.add(null, "市场分析 (2)", { pageNumber: 2 });
+
+    expect(pdf.output()).not.toContain("(Intro)");
+    expect(decryptedTitles(pdf, "/Parent")).toEqual(["Intro", "市场分析 (2)"]);
+    expect(decryptedTitles(pdf, "/Producer")).toEqual(["Pitch"]);
+  });
+});
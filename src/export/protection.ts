@@ -0,0 +1,98 @@
+import type { EncryptionOptions, jsPDF } from "jspdf";
+import { pdfTextString } from "./metadata";
+import type { ExportSettings, PdfPermission, PdfProtection } from "./types";
+
+export const PDF_PERMISSIONS: { value: PdfPermission; label: string }[] = [
+  { value: "print", label: "Print" },
+  { value: "copy", label: "Copy text and images" },
+  { value: "modify", label: "Modify" },
+  { value: "annotate", label: "Add comments and fill forms" },
+];
+
+export const DEFAULT_PDF_PROTECTION: PdfProtection = {
+  userPassword: "",
+  ownerPassword: "",
+  permissions: PDF_PERMISSIONS.map((permission) => permission.value),
+};
+
+const JSPDF_PERMISSIONS: Record<
+  PdfPermission,
+  NonNullable<EncryptionOptions["userPermissions"]>[number]
+> = {
+  print: "print",
+  copy: "copy",
+  modify: "modify",
+  annotate: "annot-forms",
+};
+
+export const toEncryption = ({
+  userPassword,
+  ownerPassword,
+  permissions,
+}: PdfProtection): EncryptionOptions => ({
+  userPassword,
+  ownerPassword,
+  userPermissions: permissions.map(
+    (permission) => JSPDF_PERMISSIONS[permission]
+  ),
+});
+
+// The parts of jsPDF's outline plugin that write each bookmark object
+type OutlineWriter = jsPDF["outline"] & {
+  objStart(node: { id: number }): void;
+  makeString(value: string): string;
+};
+
+// jsPDF's outline plugin writes bookmark titles in plain text while every
+// other string in the file is encrypted, so viewers "decrypt" them into
+// garbage. Titles go through the encryptor of the bookmark's own object.
+export const encryptOutline = (pdf: jsPDF) => {
+  const outline = pdf.outline as OutlineWriter;
+  const objStart = outline.objStart;
+  let objectId = 0;
+  outline.objStart = function (node) {
+    objectId = node.id;
+    objStart.call(this, node);
+  };
+  outline.makeString = (value) =>
+    `(${pdf.pdfEscape(
+      pdf.internal.getEncryptor(objectId)(pdfTextString(value)),
+      {}
+    )})`;
+};
+
+// Combinations that make the protection weaker than it looks, or that clash
+// with other export options; shown next to the password fields
+export const protectionWarnings = (
+  { userPassword, ownerPassword, permissions }: PdfProtection,
+  settings: ExportSettings,
+  batch: boolean
+) => {
+  const warnings: string[] = [];
+  const restricted = permissions.length < PDF_PERMISSIONS.length;
+
+  if (!userPassword && !restricted) {
+    warnings.push(
+      "No password and every permission allowed: the PDF is encrypted but nothing is protected."
+    );
+  }
+  if (restricted && !ownerPassword) {
+    warnings.push(
+      "Without an owner password any PDF editor can lift the restrictions."
+    );
+  }
+  if (ownerPassword && ownerPassword === userPassword) {
+    warnings.push(
+      "The owner and open passwords are the same, so whoever opens the file also gets full rights."
+    );
+  }
+  if (settings.notesPages && !permissions.includes("print")) {
+    warnings.push("Notes pages are meant for printing, but printing is off.");
+  }
+  if (batch || settings.locales.length > 1) {
+    warnings.push(
+      "Every file in a batch or language run gets the same passwords."
+    );
+  }
+  return warnings;
+};
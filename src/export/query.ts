@@ -0,0 +1,81 @@
+import { ExportError } from "./engine";
+import { PAGE_SIZE_LABELS } from "./settings";
+import type {
+  ExportFormat,
+  ExportMode,
+  ExportSettings,
+  PageSizePreset,
+} from "./types";
+
+// Query parameters that start an export as soon as the deck is ready, so
+// other tools can link straight to a file:
+//   ?export=pdf&slides=1-5&mode=native&locales=en,zh-TW&name=pitch
+// Options left out fall back to the user's saved export settings.
+
+export const EXPORT_PARAM = "export";
+
+const PARAMS = [EXPORT_PARAM, "mode", "slides", "locales", "name", "pageSize"];
+
+const FORMATS: ExportFormat[] = ["pdf", "pptx", "html", "images"];
+const MODES: ExportMode[] = ["image", "native"];
+
+export type ExportQuery = {
+  format: ExportFormat;
+  mode: ExportMode;
+  // slide list as written, resolved against the rendered deck later
+  slides?: string;
+  settings: Partial<ExportSettings>;
+};
+
+const isOneOf = <T extends string>(values: T[], value: string): value is T =>
+  (values as string[]).includes(value);
+
+export const hasExportQuery = (search: string) =>
+  new URLSearchParams(search).has(EXPORT_PARAM);
+
+export const parseExportQuery = (search: string): ExportQuery => {
+  const params = new URLSearchParams(search);
+  const format = params.get(EXPORT_PARAM) ?? "";
+  if (!isOneOf(FORMATS, format)) {
+    throw new ExportError(
+      `Unknown export format "${format}"; use ${FORMATS.join(" or ")}.`
+    );
+  }
+
+  const mode = params.get("mode") ?? "image";
+  if (!isOneOf(MODES, mode)) {
+    throw new ExportError(
+      `Unknown export mode "${mode}"; use ${MODES.join(" or ")}.`
+    );
+  }
+
+  const settings: Partial<ExportSettings> = {};
+  const locales = params.get("locales");
+  if (locales !== null) {
+    settings.locales = locales.split(",").filter(Boolean);
+  }
+  const name = params.get("name");
+  if (name) settings.fileName = name;
+  const pageSize = params.get("pageSize");
+  if (pageSize !== null) {
+    const presets = Object.keys(PAGE_SIZE_LABELS) as PageSizePreset[];
+    if (!isOneOf(presets, pageSize) || pageSize === "custom") {
+      throw new ExportError(`Unknown page size "${pageSize}".`);
+    }
+    settings.pageSize = pageSize;
+  }
+
+  return {
+    format,
+    mode,
+    slides: params.get("slides") ?? undefined,
+    settings,
+  };
+};
+
+// Drops the export parameters so reloading the page does not export again
+export const clearExportQuery = () => {
+  const url = new URL(window.location.href);
+  PARAMS.forEach((param) => url.searchParams.delete(param));
+  window.history.replaceState(window.history.state, "", url);
+};
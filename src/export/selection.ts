@@ -0,0 +1,124 @@
+import { collectSections, sectionKey, sectionTitle } from "./capture";
+import { ExportError } from "./engine";
+
+export type SlideInfo = {
+  key: string;
+  title: string;
+};
+
+export type SlideEntry = {
+  key: string;
+  included: boolean;
+};
+
+export type SlidePreset = {
+  name: string;
+  // included slide keys in output order
+  slides: string[];
+};
+
+const STORAGE_KEY = "pdf-html.slide-presets";
+
+export const DEFAULT_SLIDE_PRESETS: SlidePreset[] = [
+  {
+    name: "full plan",
+    slides: [
+      "hero",
+      "toc",
+      "introduction",
+      "status",
+      "business-model",
+      "market",
+      "backend",
+      "team",
+      "options",
+      "thankyou",
+    ],
+  },
+  { name: "affiliate pitch", slides: ["hero", "options", "thankyou"] },
+];
+
+export const readSlides = (root: ParentNode): SlideInfo[] =>
+  collectSections(root).map((section, index) => ({
+    key: sectionKey(section, index),
+    title: sectionTitle(section, index),
+  }));
+
+// Keeps the user's order for slides that still exist and appends new ones
+export const reconcileEntries = (
+  entries: SlideEntry[] | null,
+  slides: SlideInfo[]
+): SlideEntry[] => {
+  const available = new Set(slides.map((slide) => slide.key));
+  const kept = (entries ?? []).filter((entry) => available.has(entry.key));
+  const seen = new Set(kept.map((entry) => entry.key));
+  const added = slides
+    .filter((slide) => !seen.has(slide.key))
+    .map((slide) => ({ key: slide.key, included: true }));
+  return [...kept, ...added];
+};
+
+export const entriesFromPreset = (
+  preset: SlidePreset,
+  slides: SlideInfo[]
+): SlideEntry[] => {
+  const included = preset.slides.filter((key) =>
+    slides.some((slide) => slide.key === key)
+  );
+  const rest = slides
+    .filter((slide) => !included.includes(slide.key))
+    .map((slide) => ({ key: slide.key, included: false }));
+  return [...included.map((key) => ({ key, included: true })), ...rest];
+};
+
+export const selectedSlides = (entries: SlideEntry[] | null) =>
+  entries?.filter((entry) => entry.included).map((entry) => entry.key);
+
+const SLIDE_RANGE = /^(\d+)(?:-(\d+))?$/;
+
+// Slide keys for a list such as "1-5,options,9": 1-based numbers and ranges
+// count visible slides in page order, anything else is a slide key
+export const selectSlideSpec = (spec: string, slides: SlideInfo[]) => {
+  const keys = spec
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .flatMap((item) => {
+      const range = SLIDE_RANGE.exec(item);
+      if (!range) {
+        if (!slides.some((slide) => slide.key === item)) {
+          throw new ExportError(`The deck has no slide "${item}".`);
+        }
+        return [item];
+      }
+
+      const first = Number(range[1]);
+      const last = Number(range[2] ?? range[1]);
+      if (first < 1 || last > slides.length || first > last) {
+        throw new ExportError(
+          `Slides "${item}" are out of range; the deck has ${slides.length}.`
+        );
+      }
+      return slides.slice(first - 1, last).map((slide) => slide.key);
+    });
+
+  if (!keys.length) throw new ExportError("No slides were selected.");
+  return [...new Set(keys)];
+};
+
+export const loadSlidePresets = (): SlidePreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_SLIDE_PRESETS;
+  } catch {
+    return DEFAULT_SLIDE_PRESETS;
+  }
+};
+
+export const saveSlidePresets = (presets: SlidePreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn("Unable to save slide presets", err);
+  }
+};
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  loadExportSettings,
+  resolveSettings,
+} from "./settings";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("resolveSettings", () => {
+  it("clamps out-of-range numbers to the option bounds", () => {
+    const settings = resolveSettings({
+      pageSize: "custom",
+      customWidth: 0,
+      customHeight: 80,
+      dpi: 0,
+      imageQuality: 3,
+      sequenceWidth: Number.NaN,
+    });
+
+    expect(settings).toMatchObject({
+      customWidth: 1,
+      customHeight: 56,
+      dpi: 72,
+      imageQuality: 1,
+      sequenceWidth: DEFAULT_EXPORT_SETTINGS.sequenceWidth,
+    });
+  });
+
+  it("keeps the margin from swallowing a small page", () => {
+    expect(
+      resolveSettings({
+        pageSize: "custom",
+        customWidth: 3,
+        customHeight: 2,
+        margin: 2,
+      }).margin
+    ).toBe(0.5);
+    expect(resolveSettings({ margin: -1 }).margin).toBe(0);
+  });
+});
+
+describe("loadExportSettings", () => {
+  it("clamps saved numbers and replaces ones that are not numbers", () => {
+    vi.stubGlobal("localStorage", {
+      getItem: () =>
+        JSON.stringify({ dpi: 5000, margin: 9, sequenceWidth: "wide" }),
+    });
+
+    expect(loadExportSettings()).toMatchObject({
+      dpi: 600,
+      margin: 2,
+      sequenceWidth: DEFAULT_EXPORT_SETTINGS.sequenceWidth,
+    });
+  });
+});
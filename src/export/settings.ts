@@ -0,0 +1,141 @@
+import type {
+  DocumentMetadata,
+  ExportOptions,
+  ExportSettings,
+  PageSize,
+  PageSizePreset,
+} from "./types";
+
+export const DEFAULT_METADATA: DocumentMetadata = {
+  title: "",
+  author: "",
+  company: "Empire Solutions",
+  subject: "",
+  keywords: "",
+  version: "",
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  pageSize: "16:9",
+  customWidth: 13.333,
+  customHeight: 7.5,
+  dpi: 160,
+  imageEncoding: "png",
+  imageQuality: 0.92,
+  margin: 0,
+  fileName: "presentation",
+  notesPages: false,
+  locales: [],
+  pageNumbers: true,
+  footer: true,
+  footerText: "",
+  watermark: false,
+  overlaysOnTitle: false,
+  metadata: DEFAULT_METADATA,
+  sequenceEncoding: "png",
+  sequenceWidth: 1920,
+  contactSheet: false,
+};
+
+export type NumberSetting =
+  | "customWidth"
+  | "customHeight"
+  | "dpi"
+  | "imageQuality"
+  | "margin"
+  | "sequenceWidth";
+
+// Range of every numeric setting. The options panel inputs declare the same
+// bounds; saved settings and export links are clamped to them as well.
+export const SETTING_BOUNDS: Record<
+  NumberSetting,
+  { min: number; max: number }
+> = {
+  customWidth: { min: 1, max: 56 },
+  customHeight: { min: 1, max: 56 },
+  dpi: { min: 72, max: 600 },
+  imageQuality: { min: 0.1, max: 1 },
+  margin: { min: 0, max: 2 },
+  sequenceWidth: { min: 320, max: 6400 },
+};
+
+// a margin this share of the shorter page side still leaves half the page
+const MAX_MARGIN_SHARE = 0.25;
+
+// Anything that is not a number falls back to the default
+export const clampSetting = (key: NumberSetting, value: unknown) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return DEFAULT_EXPORT_SETTINGS[key];
+  }
+  const { min, max } = SETTING_BOUNDS[key];
+  return Math.min(max, Math.max(min, value));
+};
+
+const clampSettings = (settings: ExportSettings): ExportSettings => {
+  const clamped = { ...settings };
+  for (const key of Object.keys(SETTING_BOUNDS) as NumberSetting[]) {
+    clamped[key] = clampSetting(key, settings[key]);
+  }
+  return clamped;
+};
+
+// Viewport the off-screen export frame renders the deck in, in CSS px. Matches
+// --page-max-width in App.css so sections lay out at their designed size.
+export const SLIDE_VIEWPORT = { width: 1600, height: 900 };
+
+export const PAGE_SIZE_LABELS: Record<PageSizePreset, string> = {
+  "16:9": "16:9 (10 × 5.625 in)",
+  "4:3": "4:3 (10 × 7.5 in)",
+  "a4-landscape": "A4 landscape (11.69 × 8.27 in)",
+  custom: "Custom",
+};
+
+export const resolveSettings = (options: ExportOptions): ExportSettings => {
+  const settings = clampSettings({ ...DEFAULT_EXPORT_SETTINGS, ...options });
+  const page = resolvePageSize(settings);
+  return {
+    ...settings,
+    margin: Math.min(
+      settings.margin,
+      Math.min(page.width, page.height) * MAX_MARGIN_SHARE
+    ),
+  };
+};
+
+export const resolvePageSize = (settings: ExportSettings): PageSize => {
+  switch (settings.pageSize) {
+    case "16:9":
+      return { width: 10, height: 5.625, pptxLayout: "LAYOUT_16x9" };
+    case "4:3":
+      return { width: 10, height: 7.5, pptxLayout: "LAYOUT_4x3" };
+    case "a4-landscape":
+      return { width: 11.69, height: 8.27 };
+    case "custom":
+      return { width: settings.customWidth, height: settings.customHeight };
+  }
+};
+
+const STORAGE_KEY = "pdf-html.export-settings";
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_EXPORT_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return clampSettings({
+      ...DEFAULT_EXPORT_SETTINGS,
+      ...parsed,
+      metadata: { ...DEFAULT_METADATA, ...parsed.metadata },
+    });
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Unable to save export settings", err);
+  }
+};
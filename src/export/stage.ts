@@ -0,0 +1,91 @@
+import { requestCors } from "./dom";
+import { SLIDE_VIEWPORT } from "./settings";
+
+// The deck is rendered for export inside a hidden iframe of a fixed size, so
+// the file never depends on the exporting browser window: the App.css
+// breakpoints see SLIDE_VIEWPORT, not the user's screen.
+export type ExportStage = {
+  document: Document;
+  dispose: () => void;
+};
+
+export const PAGE_SELECTOR = ".page";
+
+const STYLESHEET_SELECTOR = 'link[rel="stylesheet"], style';
+
+const sourceDocument = (root: ParentNode) =>
+  (root as Node).ownerDocument ?? (root as Document);
+
+const loadFrame = (frame: HTMLIFrameElement) =>
+  new Promise<Document>((resolve, reject) => {
+    frame.addEventListener(
+      "load",
+      () => {
+        const doc = frame.contentDocument;
+        if (doc) resolve(doc);
+        else reject(new Error("The export frame could not be created."));
+      },
+      { once: true }
+    );
+  });
+
+// Resolves on error as well; a missing stylesheet should not block the export
+const stylesheetLoaded = (link: HTMLLinkElement) =>
+  new Promise<void>((resolve) => {
+    link.addEventListener("load", () => resolve(), { once: true });
+    link.addEventListener("error", () => resolve(), { once: true });
+  });
+
+export const createExportStage = async (
+  root: ParentNode
+): Promise<ExportStage> => {
+  const source = sourceDocument(root);
+  const frame = source.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  frame.tabIndex = -1;
+  // off-screen but still laid out and painted, which visibility: hidden or
+  // display: none would prevent
+  Object.assign(frame.style, {
+    position: "fixed",
+    top: "0",
+    left: `-${SLIDE_VIEWPORT.width * 2}px`,
+    width: `${SLIDE_VIEWPORT.width}px`,
+    height: `${SLIDE_VIEWPORT.height}px`,
+    border: "0",
+    pointerEvents: "none",
+  });
+  // a doctype keeps the frame out of quirks mode; the base resolves relative
+  // image and stylesheet URLs against the app
+  const base = source.baseURI.replace(/"/g, "&quot;");
+  frame.srcdoc = `<!doctype html><html><head><meta charset="utf-8"><base href="${base}"></head><body></body></html>`;
+
+  const loaded = loadFrame(frame);
+  source.body.appendChild(frame);
+  const dispose = () => frame.remove();
+
+  try {
+    const doc = await loaded;
+    doc.documentElement.lang = source.documentElement.lang;
+
+    const sheets = Array.from(
+      source.head.querySelectorAll(STYLESHEET_SELECTOR),
+      (node) => doc.importNode(node, true)
+    );
+    const pending = sheets
+      .filter((node): node is HTMLLinkElement => node.tagName === "LINK")
+      .map(stylesheetLoaded);
+    doc.head.append(...sheets);
+    await Promise.all(pending);
+
+    root.querySelectorAll(PAGE_SELECTOR).forEach((page) => {
+      const clone = doc.importNode(page, true);
+      clone.querySelectorAll("img").forEach(requestCors);
+      doc.body.appendChild(clone);
+    });
+
+    return { document: doc, dispose };
+  } catch (err) {
+    dispose();
+    throw err;
+  }
+};
@@ -0,0 +1,65 @@
+import type { jsPDF } from "jspdf";
+import { vi } from "vitest";
+
+// Helpers shared by the export tests
+
+// 1×1 transparent PNG
+const PNG =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+// Just enough of a canvas for jsPDF to take it as an image. Every character
+// measures as wide as the font is tall, like Chinese glyphs. Returns the text
+// drawn on every canvas; undo with vi.unstubAllGlobals().
+export const stubCanvas = () => {
+  const drawn: string[] = [];
+  const ctx = {
+    font: "",
+    fillStyle: "",
+    textAlign: "",
+    textBaseline: "",
+    measureText: (text: string) => ({
+      width: [...text].length * parseFloat(ctx.font.replace("bold ", "")),
+    }),
+    fillText: (text: string) => drawn.push(text),
+    translate: () => {},
+    rotate: () => {},
+  };
+  vi.stubGlobal("document", {
+    createElement: () => ({
+      nodeType: 1,
+      nodeName: "CANVAS",
+      width: 0,
+      height: 0,
+      getContext: () => ctx,
+      toDataURL: () => PNG,
+    }),
+  });
+  return drawn;
+};
+
+// Every indirect object in the file as [object id, dictionary text]
+const pdfObjects = (output: string) =>
+  Array.from(
+    output.matchAll(/(\d+) 0 obj([^]*?)endobj/g),
+    ([, id, body]) => [Number(id), body] as const
+  );
+
+const unescapePdf = (value: string) => value.replace(/\\([\\()])/g, "$1");
+
+// UTF-16BE with a byte order mark, or one byte per character
+const decodePdfText = (value: string) =>
+  value.startsWith("\xfe\xff")
+    ? Array.from({ length: (value.length - 2) / 2 }, (_, i) =>
+        String.fromCharCode(
+          (value.charCodeAt(2 + i * 2) << 8) | value.charCodeAt(3 + i * 2)
+        )
+      ).join("")
+    : value;
+
+// The decrypted /Title of every object that has both the given key and a title
+export const decryptedTitles = (pdf: jsPDF, key: string) =>
+  pdfObjects(pdf.output()).flatMap(([id, body]) => {
+    const title = /\/Title \(((?:\\.|[^\\)])*)\)/.exec(body);
+    if (!body.includes(key) || !title) return [];
+    return decodePdfText(pdf.internal.getEncryptor(id)(unescapePdf(title[1])));
+  });
@@ -0,0 +1,150 @@
+export type ExportFormat = "pdf" | "pptx" | "html" | "images";
+
+// "image" captures each section as a bitmap; "native" rebuilds it from the DOM
+// as vector/editable objects
+export type ExportMode = "image" | "native";
+
+// The deck's locales, which are also the language tags written into the files
+export type ExportLanguage = "zh-CN" | "zh-TW" | "en";
+
+export type PageSizePreset = "16:9" | "4:3" | "a4-landscape" | "custom";
+export type ImageEncoding = "png" | "jpeg";
+export type SequenceEncoding = ImageEncoding | "webp";
+
+// Document properties written into both formats; empty fields are left out
+export type DocumentMetadata = {
+  // the title slide's heading when empty
+  title: string;
+  author: string;
+  company: string;
+  subject: string;
+  // comma-separated
+  keywords: string;
+  version: string;
+};
+
+export type ExportSettings = {
+  pageSize: PageSizePreset;
+  // inches, only used by the "custom" preset
+  customWidth: number;
+  customHeight: number;
+  // capture resolution in pixels per page inch
+  dpi: number;
+  imageEncoding: ImageEncoding;
+  // 0–1, JPEG and WebP only
+  imageQuality: number;
+  // inches on every side
+  margin: number;
+  // without extension
+  fileName: string;
+  // PDF only: one portrait page per slide with its speaker notes underneath
+  notesPages: boolean;
+  // one file per language, named <fileName>.<locale>.<ext>; empty exports
+  // the language currently on screen
+  locales: string[];
+  // page furniture, written as text on top of each exported page
+  pageNumbers: boolean;
+  footer: boolean;
+  // shown before the export date; the theme's brand name when empty
+  footerText: string;
+  watermark: boolean;
+  // the title slide is left clean unless this is set
+  overlaysOnTitle: boolean;
+  metadata: DocumentMetadata;
+  // image sequence export: one file per slide at this width in px
+  sequenceEncoding: SequenceEncoding;
+  sequenceWidth: number;
+  // adds a thumbnail grid of the whole deck to the image ZIP
+  contactSheet: boolean;
+};
+
+export type PageSize = {
+  width: number;
+  height: number;
+  // built-in pptxgenjs layout, when one matches exactly
+  pptxLayout?: "LAYOUT_16x9" | "LAYOUT_4x3";
+};
+
+export type ExportStage = "preparing" | "capturing" | "writing" | "finishing";
+
+export type ExportProgress = {
+  stage: ExportStage;
+  // zero-based section index; equals total once every section is written
+  index: number;
+  total: number;
+  title: string;
+};
+
+// TrueType files for real text in vector PDFs
+export type PdfFontFiles = {
+  family: string;
+  normal: string;
+  bold?: string;
+};
+
+// Brand styling carried into the files beyond what the captured pixels show.
+// Colours are six-digit hex without "#".
+export type ExportTheme = {
+  name: string;
+  background: string;
+  text: string;
+  accent: string;
+  headingFont: string;
+  bodyFont: string;
+  pdfFont?: PdfFontFiles;
+};
+
+export type PdfPermission = "print" | "copy" | "modify" | "annotate";
+
+// Encryption for PDF files. Kept in memory only, never with the saved export
+// settings, so passwords do not end up in localStorage.
+export type PdfProtection = {
+  // needed to open the file; empty opens it without a prompt
+  userPassword: string;
+  // lifts the permission restrictions
+  ownerPassword: string;
+  // what someone without the owner password may do
+  permissions: PdfPermission[];
+};
+
+export type ExportOptions = Partial<ExportSettings> & {
+  mode?: ExportMode;
+  theme?: ExportTheme;
+  // section keys to export, in output order; every section when omitted
+  slides?: string[];
+  // watermark text for this deck; "CONFIDENTIAL" when omitted
+  watermarkText?: string;
+  // PDF only; unencrypted when omitted
+  protection?: PdfProtection;
+  // language of the exported text
+  language?: ExportLanguage;
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+};
+
+export type SectionCapture = {
+  section: HTMLElement;
+  index: number;
+  key: string;
+  title: string;
+  notes: string;
+  width: number;
+  height: number;
+  // null when the writer reads the live DOM instead of a bitmap
+  canvas: HTMLCanvasElement | null;
+};
+
+// One output format. The engine runs capture then write for every section in
+// order, then asks for the finished file.
+export interface Exporter {
+  capture(section: HTMLElement, index: number): Promise<SectionCapture>;
+  write(capture: SectionCapture): Promise<void>;
+  finish(): Promise<Blob>;
+}
+
+export type ExporterFactory = (options: ExportOptions) => Exporter;
+
+export type ExporterDefinition = {
+  extension: string;
+  create: ExporterFactory;
+};
@@ -0,0 +1,31 @@
+import JSZip from "jszip";
+
+export type ZipEntry = {
+  name: string;
+  data: Blob | string;
+};
+
+// Characters Windows and macOS refuse in file names
+export const safeFileName = (name: string) =>
+  name
+    .trim()
+    .replace(/[\\/:*?"<>|\s]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Bundles files into one download. Repeated names get a counter so no entry
+// silently replaces another.
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const used = new Set<string>();
+
+  entries.forEach(({ name, data }) => {
+    let unique = name;
+    for (let n = 2; used.has(unique); n += 1) {
+      unique = name.replace(/(\.[^.]+)?$/, (ext) => ` (${n})${ext}`);
+    }
+    used.add(unique);
+    zip.file(unique, data);
+  });
+
+  return zip.generateAsync({ type: "blob" });
+};
@@ -2,9 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { isPresenterWindow } from './present/channel.ts'
+import PresenterView from './present/PresenterView.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isPresenterWindow() ? <PresenterView /> : <App />}
   </StrictMode>,
 )
@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState, type RefObject } from "react";
+import type { Deck } from "../deck/types";
+import { collectSections } from "../export/capture";
+import { SLIDE_VIEWPORT } from "../export/settings";
+import {
+  BLANK_KEYS,
+  NEXT_KEYS,
+  PREVIOUS_KEYS,
+  openPresentationChannel,
+  openPresenterWindow,
+  type PresentationChannel,
+} from "./channel";
+
+const CURRENT_CLASS = "presenting-current";
+
+type PresentationProps = {
+  // the .page element; it goes full screen and shows one section at a time
+  pageRef: RefObject<HTMLElement | null>;
+  deck: Deck;
+  startIndex: number;
+  locale: string;
+  themeId: string;
+  // called with the slide on screen when the presentation ends
+  onExit: (index: number) => void;
+};
+
+const clamp = (index: number, total: number) =>
+  Math.max(0, Math.min(total - 1, index));
+
+// Typing into the on-slide calculator should not change slides
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName));
+
+function Presentation({
+  pageRef,
+  deck,
+  startIndex,
+  locale,
+  themeId,
+  onExit,
+}: PresentationProps) {
+  const total = deck.slides.filter((slide) => !slide.hidden).length;
+  const [index, setIndex] = useState(startIndex);
+  const [blank, setBlank] = useState(false);
+  // bumped whenever a presenter window asks for the current state
+  const [stateRequests, setStateRequests] = useState(0);
+  const current = clamp(index, total);
+  const currentRef = useRef(current);
+  const channel = useRef<PresentationChannel | null>(null);
+
+  const step = (delta: number) => setIndex((i) => clamp(i + delta, total));
+
+  useEffect(() => {
+    currentRef.current = current;
+    const page = pageRef.current;
+    if (!page) return;
+    const sections = collectSections(page);
+    sections.forEach((section, i) =>
+      section.classList.toggle(CURRENT_CLASS, i === current)
+    );
+    return () =>
+      sections.forEach((section) => section.classList.remove(CURRENT_CLASS));
+  }, [pageRef, deck, current]);
+
+  // Scales the 1600×900 slide to fill the window without distorting it
+  useEffect(() => {
+    const page = pageRef.current;
+    if (!page) return;
+    const fit = () =>
+      page.style.setProperty(
+        "--present-scale",
+        String(
+          Math.min(
+            window.innerWidth / SLIDE_VIEWPORT.width,
+            window.innerHeight / SLIDE_VIEWPORT.height
+          )
+        )
+      );
+    fit();
+    window.addEventListener("resize", fit);
+    return () => {
+      window.removeEventListener("resize", fit);
+      page.style.removeProperty("--present-scale");
+    };
+  }, [pageRef]);
+
+  // Leaving full screen (Esc in most browsers) ends the presentation. Without
+  // full-screen permission the deck still fills the window.
+  useEffect(() => {
+    const page = pageRef.current;
+    if (!page?.requestFullscreen) return;
+    page.requestFullscreen().catch(() => undefined);
+    // only a full screen this effect entered counts, not one still closing
+    let entered = false;
+    const handleChange = () => {
+      if (document.fullscreenElement) entered = true;
+      else if (entered) onExit(currentRef.current);
+    };
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => {
+      document.removeEventListener("fullscreenchange", handleChange);
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => undefined);
+      }
+    };
+  }, [pageRef, onExit]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (isEditable(event.target)) return;
+      if (NEXT_KEYS.includes(event.key)) {
+        setIndex((i) => clamp(i + 1, total));
+      } else if (PREVIOUS_KEYS.includes(event.key)) {
+        setIndex((i) => clamp(i - 1, total));
+      } else if (event.key === "Home") {
+        setIndex(0);
+      } else if (event.key === "End") {
+        setIndex(total - 1);
+      } else if (BLANK_KEYS.includes(event.key)) {
+        setBlank((value) => !value);
+      } else if (event.key === "p" || event.key === "P") {
+        openPresenterWindow();
+      } else if (event.key === "Escape") {
+        onExit(currentRef.current);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [total, onExit]);
+
+  useEffect(() => {
+    const opened = openPresentationChannel((message) => {
+      if (message.type === "hello") setStateRequests((n) => n + 1);
+      else if (message.type === "go") setIndex(message.index);
+      else if (message.type === "blank") setBlank(message.blank);
+    });
+    channel.current = opened;
+    return () => {
+      opened.post({ type: "ended" });
+      opened.close();
+      channel.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    channel.current?.post({
+      type: "state",
+      state: { index: current, total, blank, locale, themeId },
+    });
+  }, [current, total, blank, locale, themeId, stateRequests]);
+
+  return (
+    <>
+      {blank && <div className="presentation-blank" />}
+      <div className="presentation-hud">
+        <button
+          type="button"
+          aria-label="Previous slide"
+          disabled={current === 0}
+          onClick={() => step(-1)}
+        >
+          ‹
+        </button>
+        <span>
+          {current + 1} / {total}
+        </span>
+        <button
+          type="button"
+          aria-label="Next slide"
+          disabled={current === total - 1}
+          onClick={() => step(1)}
+        >
+          ›
+        </button>
+        <button type="button" onClick={openPresenterWindow}>
+          Presenter view
+        </button>
+        <button type="button" onClick={() => onExit(current)}>
+          Exit
+        </button>
+      </div>
+    </>
+  );
+}
+
+export default Presentation;
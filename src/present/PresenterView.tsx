@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from "react";
+import { localizeDeck } from "../deck/assets";
+import DeckRenderer from "../deck/DeckRenderer";
+import { isLocale } from "../deck/i18n";
+import { DECK_URL, loadDeck, type LocalizedDeck } from "../deck/validate";
+import { collectSections } from "../export/capture";
+import { SLIDE_VIEWPORT } from "../export/settings";
+import { findTheme, loadThemeId, themeStyle } from "../theme/themes";
+import {
+  BLANK_KEYS,
+  NEXT_KEYS,
+  PREVIOUS_KEYS,
+  openPresentationChannel,
+  type PresentationChannel,
+  type PresentationState,
+} from "./channel";
+import "../App.css";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const clock = `${pad(Math.floor((seconds % 3600) / 60))}:${pad(
+    seconds % 60
+  )}`;
+  return hours ? `${hours}:${clock}` : clock;
+};
+
+const showSection = (slot: HTMLElement | null, section?: HTMLElement) => {
+  slot?.replaceChildren(...(section ? [section.cloneNode(true)] : []));
+};
+
+// The second window: current and next slide, speaker notes and a timer. It
+// renders its own copy of the deck off-screen and mirrors the audience window.
+function PresenterView() {
+  const [state, setState] = useState<PresentationState | null>(null);
+  const [ended, setEnded] = useState(false);
+  const [deck, setDeck] = useState<LocalizedDeck | null>(null);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+  const channel = useRef<PresentationChannel | null>(null);
+  const sourceRef = useRef<HTMLDivElement>(null);
+  const currentRef = useRef<HTMLDivElement>(null);
+  const nextRef = useRef<HTMLDivElement>(null);
+  const theme = findTheme(state?.themeId ?? loadThemeId());
+  const locale = state?.locale;
+  const index = state?.index ?? 0;
+  const slides = deck?.deck.slides.filter((slide) => !slide.hidden) ?? [];
+  const notes = slides[index]?.notes ?? [];
+
+  const go = (target: number) => {
+    if (!state) return;
+    channel.current?.post({
+      type: "go",
+      index: Math.max(0, Math.min(state.total - 1, target)),
+    });
+  };
+  const toggleBlank = () =>
+    state && channel.current?.post({ type: "blank", blank: !state.blank });
+
+  useEffect(() => {
+    const opened = openPresentationChannel((message) => {
+      if (message.type === "state") {
+        setState(message.state);
+        setEnded(false);
+      } else if (message.type === "ended") {
+        setEnded(true);
+      }
+    });
+    channel.current = opened;
+    opened.post({ type: "hello" });
+    return () => {
+      opened.close();
+      channel.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLocale(locale)) return;
+    let cancelled = false;
+    loadDeck(DECK_URL, locale)
+      .then(localizeDeck)
+      .then(({ loaded }) => {
+        if (!cancelled) setDeck(loaded);
+      })
+      .catch((err) => console.error("Unable to load deck", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const source = sourceRef.current;
+    if (!source) return;
+    const sections = collectSections(source);
+    showSection(currentRef.current, sections[index]);
+    showSection(nextRef.current, sections[index + 1]);
+  }, [deck, index]);
+
+  // Each preview is a full-size slide scaled down to the width of its slot
+  useEffect(() => {
+    const observer = new ResizeObserver((entries) =>
+      entries.forEach((entry) =>
+        (entry.target as HTMLElement).style.setProperty(
+          "--slot-scale",
+          String(entry.contentRect.width / SLIDE_VIEWPORT.width)
+        )
+      )
+    );
+    [currentRef.current, nextRef.current].forEach(
+      (slot) => slot && observer.observe(slot)
+    );
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (!state) return;
+      if (NEXT_KEYS.includes(event.key)) {
+        go(state.index + 1);
+      } else if (PREVIOUS_KEYS.includes(event.key)) {
+        go(state.index - 1);
+      } else if (event.key === "Home") {
+        go(0);
+      } else if (event.key === "End") {
+        go(state.total - 1);
+      } else if (BLANK_KEYS.includes(event.key)) {
+        toggleBlank();
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  });
+
+  return (
+    <div className="presenter">
+      <div
+        ref={sourceRef}
+        className="page presenter-source"
+        style={themeStyle(theme)}
+        aria-hidden
+      >
+        {deck && <DeckRenderer deck={deck.deck} theme={theme} />}
+      </div>
+
+      <header className="presenter-bar">
+        <strong>
+          {!state
+            ? "Waiting for the presentation…"
+            : ended
+            ? "The presentation has ended"
+            : `Slide ${state.index + 1} / ${state.total}`}
+        </strong>
+        <span className="presenter-timer">
+          {formatElapsed(now - startedAt)}
+        </span>
+        <button
+          type="button"
+          className="ghost-btn"
+          onClick={() => {
+            setStartedAt(Date.now());
+            setNow(Date.now());
+          }}
+        >
+          Reset timer
+        </button>
+        <span className="presenter-clock">
+          {new Date(now).toLocaleTimeString([], {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+        </span>
+      </header>
+
+      <main className="presenter-main">
+        <figure className="presenter-current">
+          <div
+            ref={currentRef}
+            className="page presenter-slot"
+            style={themeStyle(theme)}
+          />
+          {state?.blank && (
+            <figcaption>The audience screen is blanked</figcaption>
+          )}
+        </figure>
+        <div className="presenter-side">
+          <figure className="presenter-next">
+            <figcaption>
+              {state && index + 1 < state.total ? "Next" : "End of deck"}
+            </figcaption>
+            <div
+              ref={nextRef}
+              className="page presenter-slot"
+              style={themeStyle(theme)}
+            />
+          </figure>
+          <div className="presenter-notes">
+            {notes.length ? (
+              notes.map((paragraph) => <p key={paragraph}>{paragraph}</p>)
+            ) : (
+              <p className="presenter-notes-empty">No speaker notes.</p>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <footer className="presenter-controls">
+        <button
+          type="button"
+          className="export-btn"
+          disabled={!state || index === 0}
+          onClick={() => go(index - 1)}
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          className="export-btn"
+          disabled={!state}
+          onClick={toggleBlank}
+        >
+          {state?.blank ? "Show slide" : "Blank screen"}
+        </button>
+        <button
+          type="button"
+          className="export-btn"
+          disabled={!state || index + 1 >= state.total}
+          onClick={() => go(index + 1)}
+        >
+          Next
+        </button>
+      </footer>
+    </div>
+  );
+}
+
+export default PresenterView;
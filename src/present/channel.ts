@@ -0,0 +1,57 @@
+// The audience window (App in presentation mode) and the presenter window
+// (PresenterView) talk over a BroadcastChannel. The audience window owns the
+// state; the presenter window only asks it to move.
+
+export const PRESENTER_PARAM = "presenter";
+
+const CHANNEL_NAME = "pdf-html.presentation";
+
+export type PresentationState = {
+  index: number;
+  total: number;
+  blank: boolean;
+  // so the presenter window renders the same deck
+  locale: string;
+  themeId: string;
+};
+
+export type PresentationMessage =
+  | { type: "state"; state: PresentationState }
+  // sent by the audience window when it leaves presentation mode
+  | { type: "ended" }
+  // presenter window → audience window
+  | { type: "hello" }
+  | { type: "go"; index: number }
+  | { type: "blank"; blank: boolean };
+
+export type PresentationChannel = {
+  post: (message: PresentationMessage) => void;
+  close: () => void;
+};
+
+export const openPresentationChannel = (
+  onMessage: (message: PresentationMessage) => void
+): PresentationChannel => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<PresentationMessage>) =>
+    onMessage(event.data);
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+export const isPresenterWindow = () =>
+  new URLSearchParams(window.location.search).has(PRESENTER_PARAM);
+
+export const openPresenterWindow = () =>
+  window.open(
+    `${window.location.pathname}?${PRESENTER_PARAM}`,
+    "pdf-html-presenter",
+    "width=1200,height=760"
+  );
+
+// Keys shared by both windows
+export const NEXT_KEYS = ["ArrowRight", "ArrowDown", "PageDown", " ", "Enter"];
+export const PREVIOUS_KEYS = ["ArrowLeft", "ArrowUp", "PageUp", "Backspace"];
+export const BLANK_KEYS = ["b", "B", "."];
@@ -0,0 +1,69 @@
+import { sectionKey } from "../export/capture";
+
+// Deep links into the deck: #/slide/7 (1-based, visible slides in page order)
+// or #/options (the slide's data-slide key). A leading present/ opens the
+// slide in presentation mode, e.g. #/present/options.
+
+export type SlideRoute = {
+  slide: { number: number } | { key: string };
+  present: boolean;
+};
+
+const ROUTE_PREFIX = "#/";
+const PRESENT_SEGMENT = "present";
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+export const parseSlideHash = (hash: string): SlideRoute | null => {
+  if (!hash.startsWith(ROUTE_PREFIX)) return null;
+  const segments = hash
+    .slice(ROUTE_PREFIX.length)
+    .split("/")
+    .filter(Boolean)
+    .map(decodeSegment);
+  if (segments.includes(null)) return null;
+  const present = segments[0] === PRESENT_SEGMENT;
+  const [first, second, ...rest] = present ? segments.slice(1) : segments;
+  if (!first || rest.length) return null;
+
+  if (first === "slide" && second !== undefined) {
+    const number = Number(second);
+    return Number.isInteger(number) ? { slide: { number }, present } : null;
+  }
+  return second === undefined ? { slide: { key: first }, present } : null;
+};
+
+export const slideHash = (key: string, present = false) =>
+  `${ROUTE_PREFIX}${present ? `${PRESENT_SEGMENT}/` : ""}${encodeURIComponent(
+    key
+  )}`;
+
+// Keys rather than numbers, so a link keeps pointing at the same slide when
+// slides are added or hidden. Query parameters (such as ?export=) are dropped.
+export const slideLink = (key: string, present = false) =>
+  `${window.location.origin}${window.location.pathname}${slideHash(
+    key,
+    present
+  )}`;
+
+// Index into the given sections, or -1 when the deck has no such slide
+export const resolveSlideRoute = (
+  route: SlideRoute,
+  sections: HTMLElement[]
+) => {
+  const { slide } = route;
+  if ("number" in slide) {
+    return slide.number >= 1 && slide.number <= sections.length
+      ? slide.number - 1
+      : -1;
+  }
+  return sections.findIndex(
+    (section, index) => sectionKey(section, index) === slide.key
+  );
+};
@@ -0,0 +1,177 @@
+import type { CSSProperties } from "react";
+import type { ExportTheme, PdfFontFiles } from "../export/types";
+
+// A partner brand for the white-label pitch. Colours feed the CSS custom
+// properties in App.css, so every section picks them up.
+export type Theme = {
+  id: string;
+  name: string;
+  // replaces the deck's brand name on the title slide when set
+  brandName?: string;
+  logo?: string;
+  heroImage?: string;
+  colors: {
+    primary: string;
+    primaryDark: string;
+    primaryHover: string;
+    accent: string;
+    accent2: string;
+    accent3: string;
+    text: string;
+    // the skewed bars on the title slide and the table of contents
+    stripe: string;
+    tocStripe: string;
+  };
+  fonts: {
+    body: string;
+    heading: string;
+    // stylesheet that loads the web fonts, e.g. a Google Fonts URL
+    stylesheet?: string;
+    // TrueType files for vector PDF text; the bundled CJK font otherwise
+    pdf?: PdfFontFiles;
+  };
+};
+
+export const THEMES: Theme[] = [
+  {
+    id: "empire",
+    name: "Empire Solutions",
+    colors: {
+      primary: "#051d40",
+      primaryDark: "#02084b",
+      primaryHover: "#0a2c5c",
+      accent: "#4bd1fb",
+      accent2: "#145da0",
+      accent3: "#2f39a7",
+      text: "#0c1724",
+      stripe: "#fdfcf4",
+      tocStripe: "#FFFFFF80",
+    },
+    fonts: {
+      body: '"Montserrat", sans-serif',
+      heading: '"Montserrat", sans-serif',
+    },
+  },
+  {
+    id: "aurora",
+    name: "Aurora Gaming",
+    brandName: "Aurora Gaming",
+    logo: "/themes/aurora-logo.svg",
+    heroImage:
+      "https://images.unsplash.com/photo-1519608487953-e999c86e7455?auto=format&fit=crop&w=1400&q=80",
+    colors: {
+      primary: "#1b1035",
+      primaryDark: "#0d0620",
+      primaryHover: "#2a1850",
+      accent: "#f5b83d",
+      accent2: "#b23a8a",
+      accent3: "#5b2a86",
+      text: "#1a1423",
+      stripe: "#f5b83d",
+      tocStripe: "#F5B83D80",
+    },
+    fonts: {
+      body: '"Poppins", sans-serif',
+      heading: '"Poppins", sans-serif',
+      stylesheet:
+        "https://fonts.googleapis.com/css2?family=Poppins:wght@400;600;700;800&display=swap",
+    },
+  },
+  {
+    id: "jade",
+    name: "Jade Harbor",
+    brandName: "Jade Harbor",
+    heroImage:
+      "https://images.unsplash.com/photo-1506744038136-46273834b3fb?auto=format&fit=crop&w=1400&q=80",
+    colors: {
+      primary: "#0b3d2e",
+      primaryDark: "#06261c",
+      primaryHover: "#125a44",
+      accent: "#3ddc97",
+      accent2: "#1f8a64",
+      accent3: "#0f6b4f",
+      text: "#0e1f19",
+      stripe: "#e8fff4",
+      tocStripe: "#FFFFFF80",
+    },
+    fonts: {
+      body: '"Lato", sans-serif',
+      heading: '"Playfair Display", serif',
+      stylesheet:
+        "https://fonts.googleapis.com/css2?family=Lato:wght@400;700;900&family=Playfair+Display:wght@600;800&display=swap",
+    },
+  },
+];
+
+export const DEFAULT_THEME = THEMES[0];
+
+export const findTheme = (id: string) =>
+  THEMES.find((theme) => theme.id === id) ?? DEFAULT_THEME;
+
+// "#4bd1fb" → "75, 209, 251", for the rgba() tints in App.css
+const channels = (color: string) => {
+  const hex = color.replace(/^#/, "");
+  return [0, 2, 4]
+    .map((start) => parseInt(hex.slice(start, start + 2), 16))
+    .join(", ");
+};
+
+// Custom properties for the .page element
+export const themeStyle = ({ colors, fonts }: Theme) =>
+  ({
+    "--blue": colors.primary,
+    "--blue-dark": colors.primaryDark,
+    "--blue-hover": colors.primaryHover,
+    "--accent": colors.accent,
+    "--accent-2": colors.accent2,
+    "--accent-3": colors.accent3,
+    "--text": colors.text,
+    "--stripe": colors.stripe,
+    "--stripe-toc": colors.tocStripe,
+    "--blue-dark-rgb": channels(colors.primaryDark),
+    "--blue-hover-rgb": channels(colors.primaryHover),
+    "--accent-rgb": channels(colors.accent),
+    "--accent-2-rgb": channels(colors.accent2),
+    "--accent-3-rgb": channels(colors.accent3),
+    "--text-rgb": channels(colors.text),
+    "--font-body": fonts.body,
+    "--font-heading": fonts.heading,
+  } as CSSProperties);
+
+// First family in a CSS font stack, which is the name Office and PDF readers see
+const fontName = (stack: string) =>
+  stack
+    .split(",")[0]
+    .trim()
+    .replace(/^["']|["']$/g, "");
+
+const hex = (color: string) =>
+  color.replace(/^#/, "").slice(0, 6).toUpperCase();
+
+export const toExportTheme = (theme: Theme): ExportTheme => ({
+  name: theme.name,
+  background: hex(theme.colors.primary),
+  text: hex(theme.colors.text),
+  accent: hex(theme.colors.accent),
+  headingFont: fontName(theme.fonts.heading),
+  bodyFont: fontName(theme.fonts.body),
+  pdfFont: theme.fonts.pdf,
+});
+
+const STORAGE_KEY = "pdf-html.theme";
+
+export const loadThemeId = () => {
+  try {
+    return findTheme(localStorage.getItem(STORAGE_KEY) ?? "").id;
+  } catch {
+    return DEFAULT_THEME.id;
+  }
+};
+
+export const saveThemeId = (id: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (err) {
+    console.warn("Unable to save theme", err);
+  }
+};